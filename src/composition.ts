@@ -0,0 +1,134 @@
+import * as path from 'path';
+import {
+  SavedTabState,
+  SessionFileContent,
+  SessionFileRecord,
+  StashedBuffer,
+  compareTabPosition,
+  qualifiedSessionName,
+  rekeyStashedBuffers,
+  renumberSessionTabs,
+  usedBufferIds
+} from './sessionFormat';
+
+// The sessions pulled in through `includes`, in the order their tabs are layered.
+export interface SessionComposition {
+  layers: Array<{ entry: SessionFileRecord; content: SessionFileContent }>;
+  missing: string[];
+  cycles: string[];
+}
+
+// One session's tabs and stashed buffers, as layered by `layerSessionTabs`.
+export interface SessionLayer {
+  tabs: SavedTabState[];
+  stash: Record<string, StashedBuffer>;
+}
+
+// Include names are written like `folder/name` arguments. A session stored next to the including one wins
+// when several workspace folders have a session with that name.
+export function normalizeIncludeName(name: string): string {
+  return name.trim().replace(/\\/g, '/').replace(/\.json$/, '');
+}
+
+export function resolveIncludedEntry(entries: SessionFileRecord[], owner: SessionFileRecord, name: string): SessionFileRecord | undefined {
+  const normalized = normalizeIncludeName(name);
+  const candidates = entries.filter(entry => qualifiedSessionName(entry) === normalized);
+  return candidates.find(entry => entry.workspaceFolder === owner.workspaceFolder) ?? candidates[0];
+}
+
+// Walks `includes` depth-first. Each session is layered once; references back into the current chain are cycles.
+export async function resolveSessionIncludes(
+  entries: SessionFileRecord[],
+  entry: SessionFileRecord,
+  content: SessionFileContent,
+  readSession: (filePath: string) => Promise<SessionFileContent | undefined>
+): Promise<SessionComposition> {
+  const composition: SessionComposition = { layers: [], missing: [], cycles: [] };
+  const visited = new Set([path.resolve(entry.fullPath)]);
+
+  const visit = async (owner: SessionFileRecord, ownerContent: SessionFileContent, chain: SessionFileRecord[]) => {
+    for (const name of ownerContent.includes ?? []) {
+      const included = resolveIncludedEntry(entries, owner, name);
+      if (!included) {
+        composition.missing.push(name);
+        continue;
+      }
+
+      const key = path.resolve(included.fullPath);
+      if (chain.some(link => path.resolve(link.fullPath) === key)) {
+        composition.cycles.push([...chain, included].map(qualifiedSessionName).join(' → '));
+        continue;
+      }
+      if (visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+
+      const includedContent = await readSession(included.fullPath);
+      if (!includedContent) {
+        composition.missing.push(name);
+        continue;
+      }
+
+      composition.layers.push({ entry: included, content: includedContent });
+      await visit(included, includedContent, [...chain, included]);
+    }
+  };
+
+  await visit(entry, content, [entry]);
+  return composition;
+}
+
+// Appends the tabs of every included layer after the session's own tabs, skipping tabs whose `tabKey` is already taken.
+// Only the including session decides which tabs end up active. Each layer numbers its stashed buffers on its own,
+// so included buffers are re-keyed to ids the composed session does not use yet.
+export function layerSessionTabs(
+  own: SessionLayer,
+  layers: SessionLayer[],
+  tabKey: (tabState: SavedTabState) => string | undefined
+): SessionLayer {
+  const tabs = [...own.tabs].sort(compareTabPosition);
+  const keys = new Set(tabs.map(tabKey).filter((key): key is string => !!key));
+  const stash = { ...own.stash };
+
+  for (const layer of layers) {
+    const added: SavedTabState[] = [];
+    for (const tabState of [...layer.tabs].sort(compareTabPosition)) {
+      const key = tabKey(tabState);
+      if (key && keys.has(key)) {
+        continue;
+      }
+      if (key) {
+        keys.add(key);
+      }
+      added.push({ ...tabState, isGroupActive: false, isGlobalActive: false });
+    }
+
+    const rekeyed = rekeyStashedBuffers(added, layer.stash, usedBufferIds(tabs, stash));
+    tabs.push(...rekeyed.tabs);
+    Object.assign(stash, rekeyed.buffers);
+  }
+
+  return { tabs: renumberSessionTabs(tabs), stash };
+}
+
+// Traces each tab back to the session that lists it: the including session first, then its layers in order.
+// Returns the keys of the tabs per session path; tabs without a key or an owner are left out.
+export function findTabOwners(
+  entry: SessionFileRecord,
+  content: SessionFileContent,
+  composition: SessionComposition,
+  tabs: SavedTabState[],
+  tabKey: (tabState: SavedTabState) => string | undefined
+): Map<string, Set<string>> {
+  const sources = [{ entry, content }, ...composition.layers];
+  const owners = new Map<string, Set<string>>();
+  for (const tabState of tabs) {
+    const key = tabKey(tabState);
+    const owner = key ? sources.find(source => source.content.tabs.some(candidate => tabKey(candidate) === key)) : undefined;
+    if (key && owner) {
+      owners.set(owner.entry.fullPath, (owners.get(owner.entry.fullPath) ?? new Set()).add(key));
+    }
+  }
+  return owners;
+}
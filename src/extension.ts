@@ -1,36 +1,177 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { MementoStorageProvider, SessionStorage, SessionStorageProvider } from './storage';
+import {
+  PendingWindowRestore,
+  RESTORE_MODES,
+  RestoreMode,
+  RestoreModeSetting,
+  claimPendingWindowRestore,
+  parseRestoreMode
+} from './restoreMode';
+import { SessionHistoryOperation, historyVersionFileName, mergedHistoryFileName, parseHistoryVersionFileName } from './history';
+import {
+  SessionComposition,
+  findTabOwners,
+  layerSessionTabs,
+  normalizeIncludeName,
+  resolveIncludedEntry,
+  resolveSessionIncludes
+} from './composition';
+import {
+  BUFFER_STASH_VERSION,
+  BufferStashContent,
+  SESSION_BUNDLE_FORMAT,
+  SESSION_BUNDLE_VERSION,
+  SESSION_FILE_VERSION,
+  SavedCursorPosition,
+  SavedEditorLayout,
+  SavedEditorState,
+  SavedRange,
+  SavedTabInput,
+  SavedTabKind,
+  SavedTabPlacement,
+  SavedTabState,
+  SavedWorkspaceLocation,
+  SessionBundle,
+  SessionBundleEntry,
+  SessionFileContent,
+  SessionFileRecord,
+  SessionGitInfo,
+  SessionMetadata,
+  StashedBuffer,
+  compareTabPosition,
+  detectFoldedRegions,
+  fromPortableTab,
+  getSavedTabUri,
+  isEditorLayout,
+  normalizeGroupLayouts,
+  normalizeMetadata,
+  parseSessionBundle,
+  parseSessionContent,
+  parseStashedBuffers,
+  qualifiedSessionName,
+  rekeyStashedBuffers,
+  renameSavedUri,
+  renumberSessionTabs,
+  savedTabKey,
+  toPortableTab,
+  usedBufferIds,
+  validatePathSegment
+} from './sessionFormat';
 
 const SESSION_FOLDER_NAME = 'sessions';
+const AUTOSAVE_FOLDER_NAME = 'autosave';
 
-type SessionLocationSetting = 'workspace' | 'global' | 'custom';
+type SessionLocationSetting = 'workspace' | 'global' | 'custom' | 'settingsSync' | 'workspaceState';
 type SaveBehaviorSetting = 'ask' | 'yes - save and continue' | 'no - just switch';
 type SaveBehaviorInternal = 'ask' | 'yes' | 'no';
+// A subdirectory of a session folder; `relativePath` is `/`-separated.
+interface SessionFolderRecord {
+  sessionFolder: string;
+  relativePath: string;
+  workspaceFolder?: string;
+}
 
-interface SessionFileRecord {
-  name: string;
+// Points at one saved tab inside a session file, e.g. while it is dragged in the sidebar.
+interface SessionTabReference {
+  sessionPath: string;
+  groupIndex: number;
+  tabIndex: number;
+}
+
+// Where dropped tabs are inserted: before `beforeTabIndex`, or at the end of the group.
+interface SessionTabDestination {
+  sessionPath: string;
+  groupIndex: number;
+  beforeTabIndex?: number;
+}
+
+interface SessionDirectory {
+  sessionFolder: string;
+  workspaceFolder?: string;
+}
+
+// A previous version of a session, archived before it was overwritten, edited, deleted or replaced by a restore.
+interface SessionHistoryVersion {
+  sessionPath: string;
   fullPath: string;
+  timestamp: string;
+  operation: SessionHistoryOperation;
 }
 
-interface SavedCursorPosition {
-  line: number;
-  character: number;
+interface SessionFileUpdate {
+  archived?: SessionHistoryVersion;
 }
 
-interface SavedTabState {
-  uri: string;
-  groupIndex: number;
-  tabIndex: number;
-  viewColumn?: vscode.ViewColumn;
-  isGroupActive: boolean;
-  isGlobalActive: boolean;
-  cursor?: SavedCursorPosition;
+interface SessionHistoryRecord {
+  entry: SessionFileRecord;
+  versions: SessionHistoryVersion[];
+}
+
+interface SessionTabChange {
+  before: SavedTabState;
+  after: SavedTabState;
+}
+
+interface SessionComparison {
+  added: SavedTabState[];
+  removed: SavedTabState[];
+  moved: SessionTabChange[];
+  cursorChanged: SessionTabChange[];
+  unchanged: number;
+  groupCount: { before: number; after: number };
+}
+
+interface SessionSearchResult {
+  entry: SessionFileRecord;
+  metadata?: SessionMetadata;
+  matchedTabs: SavedTabState[];
+}
+
+interface RestoreNamedSessionArgs {
+  session?: string;
+  mode?: string;
+}
+
+// The subset of the built-in `vscode.git` extension API that Session Saver relies on.
+interface GitRepositoryState {
+  HEAD?: { name?: string; commit?: string };
+  onDidChange: vscode.Event<void>;
+}
+
+interface GitRepository {
+  rootUri: vscode.Uri;
+  state: GitRepositoryState;
+}
+
+interface GitAPI {
+  repositories: GitRepository[];
+  getRepository(uri: vscode.Uri): GitRepository | null;
+  onDidOpenRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+// What a restore opened, reported once its last tab is open.
+interface RestoreOutcome {
+  restored: SavedTabState[];
+  failed: SavedTabState[];
+  skipped: number;
+  duplicates: number;
+  unmapped: SavedTabState[];
+  total: number;
+  completed: boolean;
 }
 
-interface SessionFileContent {
-  version: number;
-  tabs: SavedTabState[];
+interface AutosaveSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  retention: number;
 }
 
 interface ResolveOptions {
@@ -39,12 +180,76 @@ interface ResolveOptions {
   ensureExists?: boolean;
 }
 
-const SESSION_FILE_VERSION = 2;
-const lastKnownCursorPositions = new Map<string, SavedCursorPosition>();
+// The API returned from `activate`, available to other extensions through `vscode.extensions.getExtension(...).exports`.
+// Sessions are addressed by name, or `folder/name` for sessions inside a session folder.
+export interface SessionSaverApi {
+  readonly version: 1;
+  readonly onDidChangeSessions: vscode.Event<void>;
+  listSessions(): Promise<SessionSummary[]>;
+  saveSession(name: string, options?: SaveSessionOptions): Promise<SessionSummary>;
+  restoreSession(name: string, mode?: RestoreMode): Promise<boolean>;
+  deleteSession(name: string): Promise<void>;
+  readSession(name: string): Promise<SessionFileContent | undefined>;
+}
+
+export interface SessionSummary {
+  name: string;
+  path: string;
+  workspaceFolder?: string;
+}
 
-let sessionTreeProvider: SessionProvider;
+export interface SaveSessionOptions {
+  // Replace an existing session with the same name instead of failing.
+  overwrite?: boolean;
+}
+
+const BUFFER_STASH_EXTENSION = '.buffers';
+const SESSION_BUNDLE_EXTENSION = 'sessions';
+const COMPARE_DOCUMENT_SCHEME = 'session-saver-compare';
+const HISTORY_FOLDER_NAME = '.history';
+const SYNCED_SESSIONS_KEY = 'sessionSaver.syncedSessions';
+const SYNCED_SESSIONS_LOCAL_KEY = 'sessionSaver.syncedSessionsLocal';
+const RESTORE_COUNTS_KEY = 'sessionSaver.restoreCounts';
+const WORKSPACE_SESSIONS_KEY = 'sessionSaver.workspaceSessions';
+const PENDING_WINDOW_RESTORES_KEY = 'sessionSaver.pendingWindowRestores';
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+const SESSIONS_CHANGED_DEBOUNCE_MS = 100;
+const STORAGE_ECHO_MS = 2000;
+const MARKDOWN_PREVIEW_VIEW_TYPE = 'markdown.preview';
+const lastKnownEditorStates = new Map<string, SavedEditorState>();
+// Saved editor states of restored tabs that have not been shown yet, applied once their editor appears.
+const pendingEditorStates = new Map<string, SavedTabState>();
+// Whether the files of saved tabs exist, as last checked for the sidebar.
+const knownMissingFiles = new Map<string, boolean>();
+// Sessions as parsed for the sidebar, so re-rendering it (e.g. for a new active file) does not read every session again.
+// Dropped whenever a stored file changes.
+const sidebarSessions = new Map<string, Promise<SessionFileContent | undefined>>();
 
-export function activate(context: vscode.ExtensionContext) {
+let sessionTreeProvider: SessionProvider;
+let outputChannel: vscode.OutputChannel | undefined;
+let extensionContext: vscode.ExtensionContext | undefined;
+let restoreInProgress = false;
+// The tabs a lazy restore is still opening after handing the editor back; the next restore cancels them.
+let backgroundRestore: vscode.CancellationTokenSource | undefined;
+const compareDocuments = new Map<string, string>();
+let autosaveTimer: NodeJS.Timeout | undefined;
+let autosaveDebounce: NodeJS.Timeout | undefined;
+let lastAutosaveContent: string | undefined;
+// The checked-out branch of each open repository, keyed by its root URI.
+const currentGitBranches = new Map<string, string>();
+let branchSwitchInProgress = false;
+const sessionStorage = new SessionStorage(changedPaths => {
+  recordStorageChanges(changedPaths);
+  notifySessionsChanged();
+});
+// Paths recently changed through `sessionStorage`. The folder watcher reports those changes again, and the echoes are ignored.
+const recentStorageChanges = new Map<string, number>();
+const sessionsChangedEmitter = new vscode.EventEmitter<void>();
+let sessionsChangedDebounce: NodeJS.Timeout | undefined;
+
+export function activate(context: vscode.ExtensionContext): SessionSaverApi {
+  extensionContext = context;
+  initializeSessionStorage(context);
   initializeCursorTracking(context);
   registerSaveSessionCommand(context);
   registerRestoreSessionCommand(context);
@@ -53,10 +258,220 @@ export function activate(context: vscode.ExtensionContext) {
   registerOverwriteSessionCommand(context);
   registerChangeLocationCommand(context);
   registerDeleteAllSessionsCommand(context);
+  registerRestoreLastAutosaveCommand(context);
+  registerEditSessionMetadataCommand(context);
+  registerBindSessionToBranchCommand(context);
+  registerUnbindSessionFromBranchCommand(context);
+  registerCreateSessionFolderCommand(context);
+  registerRenameSessionFolderCommand(context);
+  registerMoveSessionCommand(context);
+  registerRemoveFileFromSessionCommand(context);
+  registerAppendToSessionCommand(context);
+  registerEditSessionIncludesCommand(context);
+  registerRemoveSessionIncludeCommand(context);
+  registerRenameSessionCommand(context);
+  registerDuplicateSessionCommand(context);
+  registerExportSessionsCommand(context);
+  registerImportSessionsCommand(context);
+  registerFindSessionContainingFileCommand(context);
+  registerFilterSessionsCommands(context);
+  registerCompareSessionCommand(context);
+  registerSessionHistoryCommands(context);
   registerSidebarTreeView(context);
+  registerSessionUriHandler(context);
+  initializeFileWatchers(context);
+  initializeAutosave(context);
+  void initializeBranchSessions(context);
+  void handleStartupRestore(context);
+  return createSessionSaverApi(context);
+}
+
+export async function deactivate() {
+  stopAutosaveTimers();
+  cancelBackgroundRestore();
+  if (extensionContext && getAutosaveSettings().enabled) {
+    await writeAutosave(extensionContext);
+  }
+}
+
+async function handleStartupRestore(context: vscode.ExtensionContext) {
+  if (await restorePendingWindowSession(context)) {
+    return;
+  }
+  await offerLastAutosaveRestore(context);
+}
+
+
+//#region Session Storage
+
+// The synced store is registered with Settings Sync, so sessions saved there follow the user across machines.
+// History versions and stashed unsaved buffers stay in a local key: they are large and may hold private contents.
+function initializeSessionStorage(context: vscode.ExtensionContext) {
+  context.globalState.setKeysForSync([SYNCED_SESSIONS_KEY]);
+  const workspaceBase = context.storageUri ?? context.globalStorageUri;
+  const localFiles = {
+    key: SYNCED_SESSIONS_LOCAL_KEY,
+    includes: (relativePath: string) => relativePath.split('/').includes(HISTORY_FOLDER_NAME) || relativePath.endsWith(BUFFER_STASH_EXTENSION)
+  };
+  sessionStorage.mementoProviders = [
+    new MementoStorageProvider('settingsSync', path.join(context.globalStorageUri.fsPath, 'settings-sync'), context.globalState, SYNCED_SESSIONS_KEY, localFiles),
+    new MementoStorageProvider('workspaceState', path.join(workspaceBase.fsPath, 'workspace-state'), context.workspaceState, WORKSPACE_SESSIONS_KEY)
+  ];
+}
+
+function storageFor(targetPath: string): SessionStorageProvider {
+  return sessionStorage.providerFor(targetPath);
+}
+
+function storageExists(targetPath: string): boolean {
+  return sessionStorage.exists(targetPath);
+}
+
+function readStoredFile(filePath: string): Promise<string> {
+  return sessionStorage.readFile(filePath);
+}
+
+function writeStoredFile(filePath: string, data: string): Promise<void> {
+  return sessionStorage.writeFile(filePath, data);
+}
+
+function deleteStoredFile(filePath: string): Promise<void> {
+  return sessionStorage.delete(filePath);
+}
+
+async function renameStoredFile(source: string, target: string): Promise<void> {
+  await sessionStorage.rename(source, target);
+  if (extensionContext) {
+    await moveRestoreCounts(extensionContext, source, target);
+  }
 }
 
-export function deactivate() {}
+function recordStorageChanges(changedPaths: string[]) {
+  const now = Date.now();
+  for (const [changedPath, changedAt] of recentStorageChanges) {
+    if (now - changedAt > STORAGE_ECHO_MS) {
+      recentStorageChanges.delete(changedPath);
+    }
+  }
+  changedPaths.forEach(changedPath => recentStorageChanges.set(path.resolve(changedPath), now));
+}
+
+// Renaming a folder changes every file inside it, so paths below a recorded one count as well.
+function isStorageEcho(filePath: string): boolean {
+  const now = Date.now();
+  return [...recentStorageChanges].some(([changedPath, changedAt]) =>
+    now - changedAt <= STORAGE_ECHO_MS && (filePath === changedPath || filePath.startsWith(changedPath + path.sep)));
+}
+
+// One operation usually touches several files (session, stash, history), so listeners hear about it once.
+function notifySessionsChanged() {
+  sidebarSessions.clear();
+  if (sessionsChangedDebounce) {
+    clearTimeout(sessionsChangedDebounce);
+  }
+  sessionsChangedDebounce = setTimeout(() => {
+    sessionsChangedDebounce = undefined;
+    sessionsChangedEmitter.fire();
+  }, SESSIONS_CHANGED_DEBOUNCE_MS);
+}
+
+// Copies every file under `source` into `target`, possibly across providers. Existing files are kept.
+// Returns the source paths that were copied; files that already exist in the target are skipped.
+async function copyStorageTree(source: string, target: string): Promise<{ copied: string[]; skipped: number }> {
+  const result = { copied: [] as string[], skipped: 0 };
+  const sourceStorage = storageFor(source);
+  const targetStorage = storageFor(target);
+  if (!sourceStorage.exists(source)) {
+    return result;
+  }
+
+  await targetStorage.createDirectory(target);
+  for (const child of await sourceStorage.readDirectory(source)) {
+    const sourcePath = path.join(source, child.name);
+    const targetPath = path.join(target, child.name);
+    if (child.isDirectory) {
+      const nested = await copyStorageTree(sourcePath, targetPath);
+      result.copied.push(...nested.copied);
+      result.skipped += nested.skipped;
+    } else if (child.name.endsWith('.tmp')) {
+      continue;
+    } else if (targetStorage.exists(targetPath)) {
+      result.skipped++;
+    } else {
+      await targetStorage.writeFile(targetPath, await sourceStorage.readFile(sourcePath));
+      result.copied.push(sourcePath);
+    }
+  }
+  return result;
+}
+
+// Removes the subdirectories of `folder` that are left empty; `folder` itself is kept.
+async function pruneEmptyDirectories(folder: string): Promise<void> {
+  const storage = storageFor(folder);
+  for (const child of await storage.readDirectory(folder)) {
+    if (!child.isDirectory) {
+      continue;
+    }
+    const childPath = path.join(folder, child.name);
+    await pruneEmptyDirectories(childPath);
+    if ((await storage.readDirectory(childPath)).length === 0) {
+      await storage.delete(childPath);
+    }
+  }
+}
+
+async function offerSessionMigration(context: vscode.ExtensionContext, previousFolder: string | undefined) {
+  const nextFolder = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
+  if (!previousFolder || !nextFolder || path.resolve(previousFolder) === path.resolve(nextFolder)) {
+    return;
+  }
+
+  const previousStorage = storageFor(previousFolder);
+  if (!previousStorage.exists(previousFolder) || (await previousStorage.readDirectory(previousFolder)).length === 0) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Move the sessions stored in the previous location (${previousFolder}) to the new one?`,
+    'Move',
+    'Copy',
+    "Don't Migrate"
+  );
+  if (choice !== 'Move' && choice !== 'Copy') {
+    return;
+  }
+
+  try {
+    const { copied, skipped } = await copyStorageTree(previousFolder, nextFolder);
+    const skippedNote = skipped > 0 ? ` ${skipped} file(s) already existed in the new location and were left untouched.` : '';
+
+    // Only the files that were copied are removed; skipped ones stay behind so nothing is lost.
+    let moved = false;
+    if (choice === 'Move' && copied.length > 0) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete the ${copied.length} migrated file(s) from ${previousFolder}?`,
+        {
+          modal: true,
+          detail: `Copies are already in ${nextFolder}.${skipped > 0 ? ` ${skipped} file(s) that were not copied are kept.` : ''}`
+        },
+        'Delete'
+      );
+      if (confirm === 'Delete') {
+        for (const sourcePath of copied) {
+          await previousStorage.delete(sourcePath);
+        }
+        await pruneEmptyDirectories(previousFolder);
+        moved = true;
+      }
+    }
+
+    vscode.window.showInformationMessage(`${moved ? 'Moved' : 'Copied'} ${copied.length} file(s) to the new session location.${skippedNote}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to migrate sessions: ${(error as Error).message}`);
+  }
+}
+
+//#endregion
 
 
 //#region Configuration helpers
@@ -103,13 +518,55 @@ function getAutoSaveBehavior(): SaveBehaviorInternal {
   return 'ask';
 }
 
+function getAutosaveSettings(): AutosaveSettings {
+  const config = getConfiguration();
+  return {
+    enabled: config.get<boolean>('autosave.enabled', false),
+    intervalMinutes: Math.max(1, config.get<number>('autosave.intervalMinutes', 5)),
+    retention: Math.max(1, config.get<number>('autosave.retention', 10))
+  };
+}
+
+function isBranchSessionsEnabled(): boolean {
+  return getConfiguration().get<boolean>('gitBranchSessions.enabled', false);
+}
+
+function getHistoryLimit(): number {
+  return Math.max(1, getConfiguration().get<number>('history.maxVersions', 20));
+}
+
+function isOverwritePreviewEnabled(): boolean {
+  return getConfiguration().get<boolean>('previewOverwrite', false);
+}
+
+function getRestoreConcurrency(): number {
+  return Math.min(32, Math.max(1, getConfiguration().get<number>('restore.concurrency', 8)));
+}
+
+function isLazyRestoreEnabled(): boolean {
+  return getConfiguration().get<boolean>('restore.lazy', false);
+}
+
+function isFollowFileRenamesEnabled(): boolean {
+  return getConfiguration().get<boolean>('followFileRenames', true);
+}
+
+function isBufferStashEnabled(): boolean {
+  return getConfiguration().get<boolean>('stashUnsavedChanges', false);
+}
+
+function getRestoreModeSetting(): RestoreModeSetting {
+  const config = getConfiguration();
+  return config.get<RestoreModeSetting>('restoreMode', 'ask');
+}
+
 async function updateConfigValue<T>(key: string, value: T) {
   const target = getConfigurationTarget(key);
   await getConfiguration().update(key, value, target);
 }
 
 async function ensureDirectory(dirPath: string) {
-  await fs.promises.mkdir(dirPath, { recursive: true });
+  await storageFor(dirPath).createDirectory(dirPath);
 }
 
 async function selectFolderDialog(title: string, openLabel: string): Promise<string | undefined> {
@@ -143,8 +600,16 @@ async function resolveWorkspaceBase(promptUser: boolean, showWarning: boolean):
     return undefined;
   }
 
+  // Virtual workspaces (e.g. remote repositories) have no folder on disk to write into.
+  if (folders.every(folder => folder.uri.scheme !== 'file')) {
+    if (showWarning) {
+      vscode.window.showWarningMessage('This workspace is not on disk. Store sessions in Workspace State or Settings Sync instead.');
+    }
+    return undefined;
+  }
+
   if (folders.length === 1 || !promptUser) {
-    const folderPath = folders[0].uri.fsPath;
+    const folderPath = (folders.find(folder => folder.uri.scheme === 'file') ?? folders[0]).uri.fsPath;
     await updateConfigValue('workspaceFolder', folderPath);
     return folderPath;
   }
@@ -184,6 +649,68 @@ async function resolveCustomBase(promptUser: boolean, showWarning: boolean): Pro
   return selected;
 }
 
+function workspaceSessionDirectory(basePath: string): string {
+  return path.join(basePath, '.vscode', SESSION_FOLDER_NAME);
+}
+
+// In multi-root workspaces every folder's `.vscode/sessions` is listed, alongside the configured one.
+function getSessionDirectories(primary?: string): SessionDirectory[] {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (getFileLocationSetting() !== 'workspace' || folders.length < 2) {
+    return primary ? [{ sessionFolder: primary }] : [];
+  }
+
+  const directories: SessionDirectory[] = folders.map(folder => ({
+    sessionFolder: workspaceSessionDirectory(folder.uri.fsPath),
+    workspaceFolder: folder.name
+  }));
+
+  if (primary && !directories.some(directory => path.resolve(directory.sessionFolder) === path.resolve(primary))) {
+    directories.push({ sessionFolder: primary, workspaceFolder: path.basename(path.dirname(path.dirname(primary))) });
+  }
+
+  return directories;
+}
+
+// Sessions are saved next to the tabs they contain; when those span several folders the user picks one.
+async function resolveSaveDirectory(context: vscode.ExtensionContext, snapshot: SessionFileContent): Promise<string | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (getFileLocationSetting() !== 'workspace' || folders.length < 2) {
+    return resolveSessionDirectory(context, { promptUser: true, showWarning: true, ensureExists: true });
+  }
+
+  const counts = new Map<string, number>();
+  for (const tabState of snapshot.tabs) {
+    if (tabState.location) {
+      counts.set(tabState.location.folder, (counts.get(tabState.location.folder) ?? 0) + 1);
+    }
+  }
+
+  let owner: vscode.WorkspaceFolder | undefined;
+  if (counts.size === 0) {
+    return resolveSessionDirectory(context, { promptUser: true, showWarning: true, ensureExists: true });
+  } else if (counts.size === 1) {
+    const [folderName] = counts.keys();
+    owner = folders.find(folder => folder.name === folderName);
+  } else {
+    const selection = await vscode.window.showQuickPick(
+      folders
+        .map(folder => ({ label: folder.name, description: `${counts.get(folder.name) ?? 0} tab(s)`, detail: folder.uri.fsPath, folder }))
+        .sort((a, b) => (counts.get(b.label) ?? 0) - (counts.get(a.label) ?? 0)),
+      { placeHolder: 'The open tabs span several workspace folders. Which one should store this session?' }
+    );
+    owner = selection?.folder;
+  }
+
+  if (!owner) {
+    return undefined;
+  }
+
+  const sessionFolder = workspaceSessionDirectory(owner.uri.fsPath);
+  await ensureDirectory(sessionFolder);
+  return sessionFolder;
+}
+
 async function resolveSessionDirectory(context: vscode.ExtensionContext, options: ResolveOptions = {}): Promise<string | undefined> {
   const {
     promptUser = true,
@@ -192,6 +719,11 @@ async function resolveSessionDirectory(context: vscode.ExtensionContext, options
   } = options;
 
   const location = getFileLocationSetting();
+  const memento = sessionStorage.mementoProviders.find(provider => provider.location === location);
+  if (memento) {
+    return memento.root;
+  }
+
   let basePath: string | undefined;
 
   if (location === 'global') {
@@ -207,7 +739,7 @@ async function resolveSessionDirectory(context: vscode.ExtensionContext, options
   }
 
   const sessionFolder = location === 'workspace'
-    ? path.join(basePath, '.vscode', SESSION_FOLDER_NAME)
+    ? workspaceSessionDirectory(basePath)
     : path.join(basePath, SESSION_FOLDER_NAME);
 
   if (ensureExists) {
@@ -217,25 +749,74 @@ async function resolveSessionDirectory(context: vscode.ExtensionContext, options
   return sessionFolder;
 }
 
-async function listSessions(context: vscode.ExtensionContext, options: ResolveOptions = {}): Promise<{ entries: SessionFileRecord[]; folder?: string }> {
-  const folder = await resolveSessionDirectory(context, options);
-  if (!folder || !fs.existsSync(folder)) {
-    return { entries: [], folder };
+function resolveFolderPath(folder: SessionFolderRecord): string {
+  return folder.relativePath
+    ? path.join(folder.sessionFolder, ...folder.relativePath.split('/'))
+    : folder.sessionFolder;
+}
+
+function parentFolderPath(relativePath: string): string {
+  const parent = path.posix.dirname(relativePath);
+  return parent === '.' ? '' : parent;
+}
+
+function sessionRootOf(entry: SessionFileRecord): string {
+  const parent = path.dirname(entry.fullPath);
+  return entry.relativeFolder
+    ? path.resolve(parent, ...entry.relativeFolder.split('/').map(() => '..'))
+    : parent;
+}
+
+// Dot-directories are reserved for Session Saver's own bookkeeping and are not listed.
+async function readSessionDirectory(directory: SessionDirectory, relativeFolder = ''): Promise<{ entries: SessionFileRecord[]; folders: SessionFolderRecord[] }> {
+  const current = resolveFolderPath({ sessionFolder: directory.sessionFolder, relativePath: relativeFolder });
+  if (!storageExists(current)) {
+    return { entries: [], folders: [] };
   }
 
-  const files = await fs.promises.readdir(folder);
-  const entries = files
-    .filter(file => file.endsWith('.json'))
-    .map(file => {
-      const fullPath = path.join(folder, file);
-      return {
-        name: path.basename(file, '.json'),
-        fullPath
-      };
-    })
-    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+  const dirents = await storageFor(current).readDirectory(current);
+  const entries: SessionFileRecord[] = dirents
+    .filter(dirent => !dirent.isDirectory && dirent.name.endsWith('.json'))
+    .map(dirent => ({
+      name: path.basename(dirent.name, '.json'),
+      fullPath: path.join(current, dirent.name),
+      workspaceFolder: directory.workspaceFolder,
+      relativeFolder: relativeFolder || undefined
+    }));
+  const folders: SessionFolderRecord[] = [];
+
+  for (const dirent of dirents) {
+    if (!dirent.isDirectory || dirent.name.startsWith('.')) {
+      continue;
+    }
+
+    const relativePath = relativeFolder ? `${relativeFolder}/${dirent.name}` : dirent.name;
+    folders.push({ sessionFolder: directory.sessionFolder, relativePath, workspaceFolder: directory.workspaceFolder });
+
+    const nested = await readSessionDirectory(directory, relativePath);
+    entries.push(...nested.entries);
+    folders.push(...nested.folders);
+  }
+
+  return { entries, folders };
+}
+
+async function listSessions(context: vscode.ExtensionContext, options: ResolveOptions = {}): Promise<{ entries: SessionFileRecord[]; folders: SessionFolderRecord[]; folder?: string }> {
+  const folder = await resolveSessionDirectory(context, options);
+  const listed = await Promise.all(getSessionDirectories(folder).map(directory => readSessionDirectory(directory)));
+  const compare = (a?: string, b?: string) => (a ?? '').localeCompare(b ?? '', undefined, { sensitivity: 'base' });
+  const entries = listed
+    .flatMap(result => result.entries)
+    .sort((a, b) =>
+      compare(a.workspaceFolder, b.workspaceFolder)
+      || compare(a.relativeFolder, b.relativeFolder)
+      || compare(a.name, b.name)
+    );
+  const folders = listed
+    .flatMap(result => result.folders)
+    .sort((a, b) => compare(a.workspaceFolder, b.workspaceFolder) || compare(a.relativePath, b.relativePath));
 
-  return { entries, folder };
+  return { entries, folders, folder };
 }
 
 function describeLocationLabel(): string {
@@ -246,6 +827,14 @@ function describeLocationLabel(): string {
     return 'Global Storage';
   }
 
+  if (location === 'settingsSync') {
+    return 'Settings Sync';
+  }
+
+  if (location === 'workspaceState') {
+    return 'Workspace State';
+  }
+
   if (location === 'workspace') {
     const stored = config.get<string>('workspaceFolder');
     return stored ? `Workspace (${stored})` : 'Workspace (default)';
@@ -258,42 +847,133 @@ function describeLocationLabel(): string {
 function initializeCursorTracking(context: vscode.ExtensionContext) {
   const seedVisibleEditors = () => {
     for (const editor of vscode.window.visibleTextEditors) {
-      const position = editor.selection.active;
-      lastKnownCursorPositions.set(editor.document.uri.toString(), {
-        line: position.line,
-        character: position.character
-      });
+      recordEditorState(editor);
     }
   };
 
   seedVisibleEditors();
 
   const selectionListener = vscode.window.onDidChangeTextEditorSelection(event => {
-    const position = event.textEditor.selection.active;
-    lastKnownCursorPositions.set(event.textEditor.document.uri.toString(), {
-      line: position.line,
-      character: position.character
-    });
+    recordEditorState(event.textEditor);
+  });
+
+  // Folding and scrolling both surface as visible range changes.
+  const visibleRangesListener = vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+    recordEditorState(event.textEditor);
   });
 
-  const visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors(() => {
+  const visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors(editors => {
+    editors.forEach(editor => void applyPendingEditorState(editor));
     seedVisibleEditors();
   });
 
+  const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(editor => {
+    if (editor) {
+      void applyPendingEditorState(editor);
+    }
+  });
+
   const closeDocListener = vscode.workspace.onDidCloseTextDocument(doc => {
-    lastKnownCursorPositions.delete(doc.uri.toString());
+    lastKnownEditorStates.delete(doc.uri.toString());
+    pendingEditorStates.delete(doc.uri.toString());
   });
 
-  context.subscriptions.push(selectionListener, visibleEditorsListener, closeDocListener);
+  context.subscriptions.push(selectionListener, visibleRangesListener, visibleEditorsListener, activeEditorListener, closeDocListener);
 }
 
-function recordCursorPosition(uri: vscode.Uri, position: vscode.Position) {
-  lastKnownCursorPositions.set(uri.toString(), {
+function toSavedPosition(position: vscode.Position): SavedCursorPosition {
+  return {
     line: position.line,
     character: position.character
+  };
+}
+
+function toSavedRange(range: vscode.Range): SavedRange {
+  return {
+    start: toSavedPosition(range.start),
+    end: toSavedPosition(range.end)
+  };
+}
+
+function recordEditorState(editor: vscode.TextEditor) {
+  const key = editor.document.uri.toString();
+  // Until its saved state is applied, the editor only shows the default state.
+  if (pendingEditorStates.has(key)) {
+    return;
+  }
+  const previous = lastKnownEditorStates.get(key);
+  lastKnownEditorStates.set(key, {
+    selections: editor.selections.map(selection => ({
+      anchor: toSavedPosition(selection.anchor),
+      active: toSavedPosition(selection.active)
+    })),
+    visibleRanges: editor.visibleRanges.map(toSavedRange),
+    foldedRegions: detectFoldedRegions(editor.visibleRanges, previous?.foldedRegions ?? [])
+  });
+}
+
+async function applyEditorState(editor: vscode.TextEditor, tabState: SavedTabState) {
+  const document = editor.document;
+  const toPosition = (saved: SavedCursorPosition) => document.validatePosition(new vscode.Position(saved.line, saved.character));
+
+  // `editor.fold` acts on the active editor, so callers must show folded tabs with focus.
+  if (tabState.foldedRegions && tabState.foldedRegions.length > 0) {
+    await vscode.commands.executeCommand('editor.fold', {
+      levels: 1,
+      direction: 'down',
+      selectionLines: tabState.foldedRegions.map(region => region.startLine)
+    });
+  }
+
+  if (tabState.selections && tabState.selections.length > 0) {
+    editor.selections = tabState.selections.map(selection => new vscode.Selection(toPosition(selection.anchor), toPosition(selection.active)));
+  }
+
+  const firstVisible = tabState.visibleRanges?.[0];
+  if (firstVisible) {
+    const top = toPosition(firstVisible.start);
+    editor.revealRange(new vscode.Range(top, top), vscode.TextEditorRevealType.AtTop);
+  } else if (tabState.selections && tabState.selections.length > 0) {
+    editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  lastKnownEditorStates.set(document.uri.toString(), {
+    selections: tabState.selections ?? [],
+    visibleRanges: tabState.visibleRanges ?? [],
+    foldedRegions: tabState.foldedRegions ?? []
+  });
+}
+
+// Keeps the saved state as the last known one, so saving again before the tab is shown does not lose it.
+// Registered before the editor is shown, so the visible editors listener already finds it.
+function deferEditorState(uri: vscode.Uri, tabState: SavedTabState) {
+  if (!tabState.selections?.length && !tabState.visibleRanges?.length && !tabState.foldedRegions?.length) {
+    return;
+  }
+  const key = uri.toString();
+  pendingEditorStates.set(key, tabState);
+  lastKnownEditorStates.set(key, {
+    selections: tabState.selections ?? [],
+    visibleRanges: tabState.visibleRanges ?? [],
+    foldedRegions: tabState.foldedRegions ?? []
   });
 }
 
+// Folding acts on the active editor, so a tab with folded regions waits until it is activated.
+async function applyPendingEditorState(editor: vscode.TextEditor) {
+  const key = editor.document.uri.toString();
+  const pending = pendingEditorStates.get(key);
+  if (!pending || (pending.foldedRegions?.length && vscode.window.activeTextEditor !== editor)) {
+    return;
+  }
+  pendingEditorStates.delete(key);
+  try {
+    await applyEditorState(editor, pending);
+  } catch (err) {
+    logError(err);
+  }
+}
+
 function getTabUri(tab: vscode.Tab): vscode.Uri | undefined {
   const input = tab.input;
   if (!input) {
@@ -319,49 +999,349 @@ function getTabUri(tab: vscode.Tab): vscode.Uri | undefined {
   return undefined;
 }
 
-function collectTextTabs(): Array<{ tab: vscode.Tab; uri: vscode.Uri; group: vscode.TabGroup; groupIndex: number; tabIndex: number }> {
-  const results: Array<{ tab: vscode.Tab; uri: vscode.Uri; group: vscode.TabGroup; groupIndex: number; tabIndex: number }> = [];
-  vscode.window.tabGroups.all.forEach((group, groupIndex) => {
-    group.tabs.forEach((tab, tabIndex) => {
-      const uri = getTabUri(tab);
-      if (uri && uri.scheme === 'file') {
-        results.push({ tab, uri, group, groupIndex, tabIndex });
-      }
-    });
-  });
-  return results;
+function describeTabInput(tab: vscode.Tab): SavedTabInput | undefined {
+  const input = tab.input;
+
+  if (input instanceof vscode.TabInputTextDiff) {
+    return { kind: 'diff', uri: input.modified.toString(), originalUri: input.original.toString() };
+  }
+
+  if (input instanceof vscode.TabInputNotebook) {
+    return input.uri.scheme === 'file'
+      ? { kind: 'notebook', uri: input.uri.toString(), notebookType: input.notebookType }
+      : undefined;
+  }
+
+  if (input instanceof vscode.TabInputCustom) {
+    return input.uri.scheme === 'file'
+      ? { kind: 'custom', uri: input.uri.toString(), viewType: input.viewType }
+      : undefined;
+  }
+
+  if (input instanceof vscode.TabInputTerminal) {
+    return { kind: 'terminal' };
+  }
+
+  if (input instanceof vscode.TabInputWebview) {
+    const source = input.viewType.endsWith(MARKDOWN_PREVIEW_VIEW_TYPE) ? findMarkdownPreviewSource(tab) : undefined;
+    return source ? { kind: 'markdownPreview', uri: source.toString() } : { kind: 'webview', viewType: input.viewType };
+  }
+
+  const uri = getTabUri(tab);
+  if (uri) {
+    if (uri.scheme === 'untitled') {
+      return { kind: 'untitled', uri: uri.toString() };
+    }
+    return uri.scheme === 'file' ? { kind: 'text', uri: uri.toString() } : undefined;
+  }
+
+  // Settings, keybindings and similar built-in editors expose no input at all.
+  return { kind: 'unknown' };
 }
 
-function createSessionSnapshot(): SessionFileContent {
-  const activeGroup = vscode.window.tabGroups.activeTabGroup;
-  const tabs = collectTextTabs().map(({ tab, uri, group, groupIndex, tabIndex }) => {
-    const cursor = lastKnownCursorPositions.get(uri.toString());
-    return {
-      uri: uri.toString(),
-      groupIndex,
-      tabIndex,
-      viewColumn: group.viewColumn,
-      isGroupActive: tab.isActive,
-      isGlobalActive: activeGroup?.activeTab === tab,
-      cursor
-    } as SavedTabState;
-  });
+// Webview tabs do not expose their resource, but a preview's label ends with its source file's name (e.g. "Preview README.md").
+// With several open files of that name, the one with a tab in the preview's group wins; otherwise the preview stays a webview.
+function findMarkdownPreviewSource(tab: vscode.Tab): vscode.Uri | undefined {
+  const candidates = vscode.workspace.textDocuments.filter(document =>
+    document.uri.scheme === 'file' && document.languageId === 'markdown' && tab.label.endsWith(path.basename(document.uri.fsPath)));
+  if (candidates.length <= 1) {
+    return candidates[0]?.uri;
+  }
+  const groupUris = new Set(tab.group.tabs.map(candidate => getTabUri(candidate)?.toString()));
+  const inGroup = candidates.filter(document => groupUris.has(document.uri.toString()));
+  return inGroup.length === 1 ? inGroup[0].uri : undefined;
+}
 
-  return {
-    version: SESSION_FILE_VERSION,
-    tabs
-  };
+function isRestorableTab(tabState: SavedTabState): boolean {
+  return tabState.kind !== 'webview' && tabState.kind !== 'unknown';
+}
+
+function describeTabKind(kind: SavedTabKind): string {
+  switch (kind) {
+    case 'text':
+      return 'File';
+    case 'untitled':
+      return 'Untitled';
+    case 'diff':
+      return 'Diff';
+    case 'notebook':
+      return 'Notebook';
+    case 'custom':
+      return 'Custom Editor';
+    case 'markdownPreview':
+      return 'Markdown Preview';
+    case 'terminal':
+      return 'Terminal';
+    case 'webview':
+      return 'Webview';
+    default:
+      return 'Editor';
+  }
+}
+
+async function captureEditorLayout(): Promise<SavedEditorLayout | undefined> {
+  try {
+    const layout = await vscode.commands.executeCommand<unknown>('vscode.getEditorLayout');
+    if (!isEditorLayout(layout)) {
+      return undefined;
+    }
+    return {
+      orientation: layout.orientation,
+      groups: normalizeGroupLayouts(layout.groups)
+    };
+  } catch (err) {
+    logError(err);
+    return undefined;
+  }
+}
+
+function findOpenDocument(uri: string): vscode.TextDocument | undefined {
+  return vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+}
+
+async function getGitAPI(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension) {
+    return undefined;
+  }
+
+  try {
+    const exports = extension.isActive ? extension.exports : await extension.activate();
+    return exports.getAPI(1);
+  } catch (err) {
+    logError(err);
+    return undefined;
+  }
+}
+
+// Picks the repository owning the first saved file, falling back to the first open repository.
+async function captureGitInfo(tabs: SavedTabState[]): Promise<SessionGitInfo | undefined> {
+  const git = await getGitAPI();
+  if (!git || git.repositories.length === 0) {
+    return undefined;
+  }
+
+  const firstFile = tabs.map(getSavedTabUri).find(uri => uri && vscode.Uri.parse(uri).scheme === 'file');
+  const repository = (firstFile ? git.getRepository(vscode.Uri.parse(firstFile)) : null) ?? git.repositories[0];
+  const head = repository.state.HEAD;
+  if (!head) {
+    return undefined;
+  }
+
+  return { branch: head.name, head: head.commit };
+}
+
+function formatTimestamp(value?: string): string | undefined {
+  return value ? new Date(value).toLocaleString() : undefined;
+}
+
+function describeMetadata(metadata?: SessionMetadata): string[] {
+  if (!metadata) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (metadata.tags && metadata.tags.length > 0) {
+    lines.push(`Tags: ${metadata.tags.join(', ')}`);
+  }
+  if (metadata.createdAt) {
+    lines.push(`Created: ${formatTimestamp(metadata.createdAt)}`);
+  }
+  if (metadata.updatedAt) {
+    lines.push(`Updated: ${formatTimestamp(metadata.updatedAt)}`);
+  }
+  lines.push(`Restored: ${metadata.restoreCount ?? 0} time(s)`);
+  if (metadata.git?.branch || metadata.git?.head) {
+    const head = metadata.git.head ? ` @ ${metadata.git.head.slice(0, 7)}` : '';
+    lines.push(`Git: ${metadata.git.branch ?? '(detached)'}${head}`);
+  }
+  if (metadata.boundBranch) {
+    const repository = metadata.boundRepository ? ` (${path.basename(vscode.Uri.parse(metadata.boundRepository).path)})` : '';
+    lines.push(`Bound to branch: ${metadata.boundBranch}${repository}`);
+  }
+  return lines;
+}
+
+async function createSessionSnapshot(previous?: SessionMetadata): Promise<SessionFileContent> {
+  const activeGroup = vscode.window.tabGroups.activeTabGroup;
+  const stashBuffers = isBufferStashEnabled();
+  const bufferIds = new Map<string, string>();
+  const tabs: SavedTabState[] = [];
+
+  vscode.window.tabGroups.all.forEach((group, groupIndex) => {
+    group.tabs.forEach((tab, tabIndex) => {
+      const input = describeTabInput(tab);
+      if (!input || (input.kind === 'untitled' && !stashBuffers)) {
+        return;
+      }
+
+      const uri = 'uri' in input ? input.uri : undefined;
+      const editorState = uri ? lastKnownEditorStates.get(uri) : undefined;
+
+      let bufferId: string | undefined;
+      if (stashBuffers && uri && (input.kind === 'text' || input.kind === 'untitled')) {
+        const document = findOpenDocument(uri);
+        if (input.kind === 'untitled' || document?.isDirty) {
+          bufferId = bufferIds.get(uri) ?? `buffer-${bufferIds.size + 1}`;
+          bufferIds.set(uri, bufferId);
+        }
+      }
+
+      tabs.push({
+        ...input,
+        ...(input.kind === 'diff' ? { originalLocation: toWorkspaceLocation(input.originalUri) } : {}),
+        label: tab.label,
+        location: uri ? toWorkspaceLocation(uri) : undefined,
+        groupIndex,
+        tabIndex,
+        viewColumn: group.viewColumn,
+        isGroupActive: tab.isActive,
+        isGlobalActive: activeGroup?.activeTab === tab,
+        isPinned: tab.isPinned,
+        isPreview: tab.isPreview,
+        bufferId,
+        ...editorState
+      });
+    });
+  });
+
+  const now = new Date().toISOString();
+  return {
+    version: SESSION_FILE_VERSION,
+    metadata: {
+      ...previous,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+      restoreCount: previous?.restoreCount ?? 0,
+      git: await captureGitInfo(tabs)
+    },
+    layout: await captureEditorLayout(),
+    tabs
+  };
+}
+
+function toWorkspaceLocation(uriString: string): SavedWorkspaceLocation | undefined {
+  const uri = vscode.Uri.parse(uriString);
+  if (uri.scheme !== 'file') {
+    return undefined;
+  }
+
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!folder) {
+    return undefined;
+  }
+
+  return {
+    folder: folder.name,
+    path: path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/')
+  };
+}
+
+function describeSavedLocation(tabState: SavedTabState): string {
+  if (tabState.location) {
+    return `${tabState.location.folder}/${tabState.location.path}`;
+  }
+  const uri = getSavedTabUri(tabState);
+  return uri ? vscode.Uri.parse(uri).fsPath : savedTabDisplayName(tabState);
+}
+
+// Prefers a workspace folder with the saved name, then the absolute path if it still exists,
+// then the only open folder (a clone checked out under another name). Returns undefined when unmappable.
+function resolveSavedUri(uri: string, location?: SavedWorkspaceLocation): string | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const toUri = (folder: vscode.WorkspaceFolder, loc: SavedWorkspaceLocation) =>
+    vscode.Uri.joinPath(folder.uri, ...loc.path.split('/')).toString();
+
+  if (location) {
+    const named = folders.find(folder => folder.name === location.folder);
+    if (named) {
+      return toUri(named, location);
+    }
+  }
+
+  const absolute = vscode.Uri.parse(uri);
+  if (absolute.scheme !== 'file' || fs.existsSync(absolute.fsPath)) {
+    return uri;
+  }
+
+  if (location && folders.length === 1) {
+    return toUri(folders[0], location);
+  }
+
+  return undefined;
+}
+
+function resolveSessionTabs(tabs: SavedTabState[]): { tabs: SavedTabState[]; unmapped: SavedTabState[] } {
+  const resolved: SavedTabState[] = [];
+  const unmapped: SavedTabState[] = [];
+
+  for (const tabState of tabs) {
+    if (!('uri' in tabState)) {
+      resolved.push(tabState);
+      continue;
+    }
+
+    const uri = resolveSavedUri(tabState.uri, tabState.location);
+    if (tabState.kind === 'diff') {
+      const originalUri = resolveSavedUri(tabState.originalUri, tabState.originalLocation);
+      if (uri && originalUri) {
+        resolved.push({ ...tabState, uri, originalUri });
+      } else {
+        unmapped.push(tabState);
+      }
+    } else if (uri) {
+      resolved.push({ ...tabState, uri });
+    } else {
+      unmapped.push(tabState);
+    }
+  }
+
+  return { tabs: resolved, unmapped };
+}
+
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Session Saver');
+    extensionContext?.subscriptions.push(outputChannel);
+  }
+  return outputChannel;
+}
+
+function logError(err: unknown, message?: string) {
+  const detail = err instanceof Error ? err.stack ?? err.message : String(err);
+  getOutputChannel().appendLine(message ? `${message}: ${detail}` : detail);
+}
+
+function logUnmappedTabs(sessionName: string, unmapped: SavedTabState[]) {
+  const channel = getOutputChannel();
+  channel.appendLine(`[${new Date().toLocaleString()}] Session "${sessionName}": ${unmapped.length} file(s) could not be mapped to the current workspace:`);
+  for (const tabState of unmapped) {
+    channel.appendLine(`  - ${describeSavedLocation(tabState)}`);
+  }
+}
+
+async function reportUnmappedTabs(sessionName: string, unmapped: SavedTabState[]) {
+  if (unmapped.length === 0) {
+    return;
+  }
+
+  logUnmappedTabs(sessionName, unmapped);
+
+  const choice = await vscode.window.showWarningMessage(
+    `${unmapped.length} file(s) in session "${sessionName}" could not be mapped to the current workspace.`,
+    'Show Report'
+  );
+  if (choice === 'Show Report') {
+    getOutputChannel().show();
+  }
 }
 
 async function readSessionFile(filePath: string): Promise<SessionFileContent | undefined> {
   try {
-    const raw = await fs.promises.readFile(filePath, 'utf8');
-    const parsed = JSON.parse(raw);
-    if (parsed && typeof parsed === 'object' && Array.isArray(parsed.tabs)) {
-      return {
-        version: typeof parsed.version === 'number' ? parsed.version : 1,
-        tabs: parsed.tabs as SavedTabState[]
-      };
+    const raw = await readStoredFile(filePath);
+    const content = parseSessionContent(JSON.parse(raw));
+    if (content) {
+      return content;
     }
     vscode.window.showWarningMessage(`Session file is invalid: ${filePath}`);
   } catch (err) {
@@ -369,463 +1349,3687 @@ async function readSessionFile(filePath: string): Promise<SessionFileContent | u
       vscode.window.showWarningMessage(`Session file not found: ${filePath}`);
     } else {
       vscode.window.showWarningMessage(`Failed to read session file: ${filePath}`);
-      console.error(err);
+      logError(err);
     }
   }
   return undefined;
 }
 
-async function restoreSessionFromEntry(entry: SessionFileRecord): Promise<void> {
-  const sessionData = await readSessionFile(entry.fullPath);
-  if (!sessionData) {
+function bufferStashPath(sessionPath: string): string {
+  return sessionPath.replace(/\.json$/i, '') + BUFFER_STASH_EXTENSION;
+}
+
+function collectBufferStash(snapshot: SessionFileContent): BufferStashContent {
+  const buffers: Record<string, StashedBuffer> = {};
+  for (const tabState of snapshot.tabs) {
+    if (!tabState.bufferId || buffers[tabState.bufferId] || !('uri' in tabState)) {
+      continue;
+    }
+    const document = findOpenDocument(tabState.uri);
+    if (document) {
+      buffers[tabState.bufferId] = { languageId: document.languageId, content: document.getText() };
+    }
+  }
+  return { version: BUFFER_STASH_VERSION, buffers };
+}
+
+async function readBufferStash(sessionPath: string): Promise<Record<string, StashedBuffer>> {
+  try {
+    const raw = await readStoredFile(bufferStashPath(sessionPath));
+    const parsed = JSON.parse(raw) as Partial<BufferStashContent> | undefined;
+    return parseStashedBuffers(parsed?.buffers) ?? {};
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError(err);
+    }
+    return {};
+  }
+}
+
+// Like `readSessionFile`, but without warnings, for searches and listings that touch every file.
+async function readSessionQuietly(filePath: string): Promise<SessionFileContent | undefined> {
+  try {
+    return parseSessionContent(JSON.parse(await readStoredFile(filePath)));
+  } catch {
+    return undefined;
+  }
+}
+
+// Metadata is read without the warnings `readSessionFile` shows, since listings touch every file.
+function readSidebarSession(filePath: string): Promise<SessionFileContent | undefined> {
+  let content = sidebarSessions.get(filePath);
+  if (!content) {
+    content = readSessionQuietly(filePath);
+    sidebarSessions.set(filePath, content);
+  }
+  return content;
+}
+
+async function readSessionMetadata(filePath: string): Promise<SessionMetadata | undefined> {
+  try {
+    const parsed = JSON.parse(await readStoredFile(filePath));
+    return normalizeMetadata(parsed?.metadata);
+  } catch {
+    return undefined;
+  }
+}
+
+// Rewrites an existing session without touching its buffer stash. The previous version is archived unless nothing changed;
+// the result carries that version, and is undefined when the session could not be read.
+async function updateSessionFile(filePath: string, update: (content: SessionFileContent) => SessionFileContent): Promise<SessionFileUpdate | undefined> {
+  const content = await readSessionFile(filePath);
+  if (!content) {
+    return undefined;
+  }
+  const updated = JSON.stringify(update(content), null, 2);
+  if (updated === JSON.stringify(content, null, 2)) {
+    return {};
+  }
+  const archived = await archiveSessionVersion(filePath, 'edit');
+  await writeStoredFile(filePath, updated);
+  return { archived };
+}
+
+// Restores are counted in global state, keyed by session path, so restoring never rewrites (or re-syncs) the session file.
+function readRestoreCounts(context: vscode.ExtensionContext): Record<string, number> {
+  return { ...context.globalState.get<Record<string, number>>(RESTORE_COUNTS_KEY) };
+}
+
+async function recordSessionRestore(context: vscode.ExtensionContext, filePath: string) {
+  const counts = readRestoreCounts(context);
+  const key = path.resolve(filePath);
+  counts[key] = (counts[key] ?? 0) + 1;
+  await context.globalState.update(RESTORE_COUNTS_KEY, counts);
+}
+
+// Sessions written by earlier versions still carry the restores counted in the file itself.
+function withRestoreCount(context: vscode.ExtensionContext, filePath: string, metadata?: SessionMetadata): SessionMetadata | undefined {
+  const recorded = readRestoreCounts(context)[path.resolve(filePath)];
+  return recorded ? { ...metadata, restoreCount: (metadata?.restoreCount ?? 0) + recorded } : metadata;
+}
+
+// Follows a renamed session, or every session inside a renamed folder.
+async function moveRestoreCounts(context: vscode.ExtensionContext, source: string, target: string) {
+  const from = path.resolve(source);
+  const counts = readRestoreCounts(context);
+  const moved = Object.keys(counts).filter(key => key === from || key.startsWith(from + path.sep));
+  if (moved.length === 0) {
     return;
   }
+  for (const key of moved) {
+    const count = counts[key];
+    delete counts[key];
+    counts[path.resolve(target) + key.slice(from.length)] = count;
+  }
+  await context.globalState.update(RESTORE_COUNTS_KEY, counts);
+}
 
-  if (!Array.isArray(sessionData.tabs) || sessionData.tabs.length === 0) {
-    vscode.window.showWarningMessage(`Session "${entry.name}" does not contain any tabs.`);
+async function writeSessionFile(filePath: string, snapshot: SessionFileContent): Promise<void> {
+  // Snapshots of the open editors never carry includes, so overwriting keeps those of the session being replaced.
+  const includes = snapshot.includes ?? (storageExists(filePath) ? (await readSessionQuietly(filePath))?.includes : undefined);
+  await writeStoredFile(filePath, JSON.stringify({ ...snapshot, includes }, null, 2));
+
+  await writeBufferStash(filePath, collectBufferStash(snapshot).buffers);
+}
+
+async function writeBufferStash(sessionPath: string, buffers: Record<string, StashedBuffer>): Promise<void> {
+  const stashPath = bufferStashPath(sessionPath);
+  if (Object.keys(buffers).length > 0) {
+    const stash: BufferStashContent = { version: BUFFER_STASH_VERSION, buffers };
+    await writeStoredFile(stashPath, JSON.stringify(stash));
+  } else if (storageExists(stashPath)) {
+    await deleteStoredFile(stashPath);
+  }
+}
+
+async function deleteSessionFile(filePath: string): Promise<void> {
+  if (storageExists(filePath)) {
+    await deleteStoredFile(filePath);
+  }
+  const stashPath = bufferStashPath(filePath);
+  if (storageExists(stashPath)) {
+    await deleteStoredFile(stashPath);
+  }
+}
+
+async function applyStashedBuffer(document: vscode.TextDocument, buffer: StashedBuffer) {
+  if (document.getText() === buffer.content) {
+    return;
+  }
+  const edit = new vscode.WorkspaceEdit();
+  const fullRange = document.validateRange(new vscode.Range(0, 0, document.lineCount, 0));
+  edit.replace(document.uri, fullRange, buffer.content);
+  await vscode.workspace.applyEdit(edit);
+}
+
+// Drops the unsaved changes that were just stashed, so closing the editors does not ask to save them.
+// Untitled buffers are emptied in place; files can only be reverted through their editor, so those few are shown first.
+async function discardStashedBuffers(snapshot: SessionFileContent) {
+  const documents = new Set(snapshot.tabs
+    .flatMap(tabState => tabState.bufferId && 'uri' in tabState ? [findOpenDocument(tabState.uri)] : [])
+    .filter((document): document is vscode.TextDocument => !!document?.isDirty));
+
+  const untitled = [...documents].filter(document => document.isUntitled);
+  if (untitled.length > 0) {
+    const edit = new vscode.WorkspaceEdit();
+    for (const document of untitled) {
+      edit.delete(document.uri, document.validateRange(new vscode.Range(0, 0, document.lineCount, 0)));
+    }
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  for (const document of documents) {
+    if (document.isUntitled || !document.isDirty) {
+      continue;
+    }
+    await vscode.window.showTextDocument(document, { preview: false, preserveFocus: false });
+    await vscode.commands.executeCommand('workbench.action.files.revert');
+  }
+}
+
+function savedTabDisplayName(tabState: SavedTabState): string {
+  if (tabState.label) {
+    return tabState.label;
+  }
+  const uri = getSavedTabUri(tabState);
+  return uri ? path.basename(vscode.Uri.parse(uri).fsPath) : describeTabKind(tabState.kind);
+}
+
+// Returns the tab as it was reopened; untitled buffers come back under a new URI.
+// With `deferState`, text tabs open without focus and get their cursor and scroll position once they are shown.
+async function openSavedTab(tabState: SavedTabState, preserveFocus: boolean, stash: Record<string, StashedBuffer> = {}, deferState = false): Promise<SavedTabState> {
+  const viewColumn = tabState.viewColumn;
+  const preview = tabState.isPreview ?? false;
+  const buffer = tabState.bufferId ? stash[tabState.bufferId] : undefined;
+
+  switch (tabState.kind) {
+    case 'text': {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(tabState.uri));
+      if (buffer) {
+        await applyStashedBuffer(doc, buffer);
+      }
+      if (deferState) {
+        deferEditorState(doc.uri, tabState);
+      }
+      const editor = await vscode.window.showTextDocument(doc, {
+        viewColumn,
+        preview,
+        preserveFocus: preserveFocus && (deferState || !tabState.foldedRegions?.length)
+      });
+      if (!deferState) {
+        await applyEditorState(editor, tabState);
+      }
+      return tabState;
+    }
+    case 'untitled': {
+      if (!buffer) {
+        throw new Error(`No stashed content for ${tabState.uri}`);
+      }
+      const doc = await vscode.workspace.openTextDocument({ language: buffer.languageId, content: buffer.content });
+      const reopened: SavedTabState = { ...tabState, kind: 'text', uri: doc.uri.toString(), bufferId: undefined };
+      return openSavedTab(reopened, preserveFocus, {}, deferState);
+    }
+    case 'diff': {
+      const modified = vscode.Uri.parse(tabState.uri);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.parse(tabState.originalUri),
+        modified,
+        tabState.label,
+        { viewColumn, preview, preserveFocus }
+      );
+      const editor = vscode.window.visibleTextEditors.find(candidate =>
+        candidate.document.uri.toString() === modified.toString() && candidate.viewColumn === viewColumn
+      );
+      if (editor) {
+        await applyEditorState(editor, { ...tabState, foldedRegions: undefined });
+      }
+      return tabState;
+    }
+    case 'notebook': {
+      const notebook = await vscode.workspace.openNotebookDocument(vscode.Uri.parse(tabState.uri));
+      await vscode.window.showNotebookDocument(notebook, { viewColumn, preview, preserveFocus });
+      return tabState;
+    }
+    case 'custom':
+      await vscode.commands.executeCommand(
+        'vscode.openWith',
+        vscode.Uri.parse(tabState.uri),
+        tabState.viewType,
+        { viewColumn, preview, preserveFocus }
+      );
+      return tabState;
+    case 'markdownPreview':
+      // The preview opens next to the active text editor, so it is moved into its saved group afterwards.
+      await vscode.commands.executeCommand('markdown.showPreview', vscode.Uri.parse(tabState.uri));
+      if (viewColumn !== undefined) {
+        await vscode.commands.executeCommand('moveActiveEditor', { to: 'position', by: 'group', value: viewColumn });
+      }
+      return tabState;
+    case 'terminal':
+      // The process itself cannot be revived, so open a fresh terminal in its place.
+      vscode.window.createTerminal({
+        name: tabState.label,
+        location: { viewColumn: viewColumn ?? vscode.ViewColumn.Active, preserveFocus }
+      });
+      return tabState;
+    default:
+      return tabState;
+  }
+}
+
+function collectOpenTabKeys(): Set<string> {
+  const keys = new Set<string>();
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      const input = describeTabInput(tab);
+      const key = input ? savedTabKey(input) : undefined;
+      if (key) {
+        keys.add(key);
+      }
+    }
+  }
+  return keys;
+}
+
+function hasOpenTabs(): boolean {
+  return vscode.window.tabGroups.all.some(group => group.tabs.length > 0);
+}
+
+async function resolveRestoreMode(requested?: RestoreMode): Promise<RestoreMode | undefined> {
+  if (requested) {
+    return requested;
+  }
+
+  const setting = getRestoreModeSetting();
+  if (setting !== 'ask') {
+    return setting;
+  }
+
+  if (!hasOpenTabs()) {
+    return 'replace';
+  }
+
+  const selection = await vscode.window.showQuickPick(
+    [
+      { label: 'Replace', description: 'Close all open editors, then open the session', mode: 'replace' as RestoreMode },
+      { label: 'Merge', description: 'Open the session next to the current tabs, skipping duplicates', mode: 'merge' as RestoreMode },
+      { label: 'New Window', description: 'Open the session in a new VS Code window', mode: 'new window' as RestoreMode }
+    ],
+    { placeHolder: 'How should the session be restored?' }
+  );
+
+  return selection?.mode;
+}
+
+// Identifies a window by its folders. A duplicated workspace keeps the folders, though its workspace file is new.
+function windowWorkspaceKey(): string | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  return folders.length > 0 ? folders.map(folder => folder.uri.toString()).sort().join('\n') : undefined;
+}
+
+async function openSessionInNewWindow(context: vscode.ExtensionContext, entry: SessionFileRecord): Promise<void> {
+  const workspace = windowWorkspaceKey();
+  const pending: PendingWindowRestore = { entry, workspace, requestedAt: Date.now() };
+  // Each request gets its own one-time key, so two windows opened in a row cannot overwrite each other's session.
+  const restores = context.globalState.get<Record<string, PendingWindowRestore>>(PENDING_WINDOW_RESTORES_KEY);
+  await context.globalState.update(PENDING_WINDOW_RESTORES_KEY, { ...restores, [crypto.randomUUID()]: pending });
+
+  // A folder that is already open cannot be opened in a second window, so the workspace is duplicated instead.
+  if (workspace) {
+    await vscode.commands.executeCommand('workbench.action.duplicateWorkspaceInNewWindow');
+  } else {
+    await vscode.commands.executeCommand('workbench.action.newWindow');
+  }
+}
+
+// The new window activates a fresh extension host, which claims the oldest request made for its workspace.
+async function restorePendingWindowSession(context: vscode.ExtensionContext): Promise<boolean> {
+  const restores = context.globalState.get<Record<string, PendingWindowRestore>>(PENDING_WINDOW_RESTORES_KEY);
+  if (!restores || Object.keys(restores).length === 0) {
+    return false;
+  }
+
+  const { claimed, remaining } = claimPendingWindowRestore(restores, windowWorkspaceKey(), Date.now());
+  await context.globalState.update(PENDING_WINDOW_RESTORES_KEY, remaining);
+  if (!claimed) {
+    return false;
+  }
+
+  await restoreSessionFromEntry(context, claimed.entry, 'replace');
+  return true;
+}
+
+// Brings an already restored tab to the front. Text tabs are only shown, applying their saved state if it is still pending.
+// Terminals are skipped because reopening one spawns another.
+async function revealSavedTab(tabState: SavedTabState, preserveFocus: boolean): Promise<void> {
+  if (tabState.kind === 'terminal') {
+    return;
+  }
+  // An untitled tab that is already open is shown like a file; reopening it would need its stashed buffer.
+  // Other editors can only be brought forward by opening them again, so that only happens when they are not in front yet.
+  if (tabState.kind !== 'text' && tabState.kind !== 'untitled') {
+    if (!isFrontTab(tabState, !preserveFocus)) {
+      await openSavedTab(tabState, preserveFocus);
+    }
     return;
   }
 
-  const sessionUris = new Set(sessionData.tabs.map(tab => tab.uri));
-  const currentTabs = collectTextTabs();
+  const pending = pendingEditorStates.get(vscode.Uri.parse(tabState.uri).toString());
+  const editor = await vscode.window.showTextDocument(vscode.Uri.parse(tabState.uri), {
+    viewColumn: tabState.viewColumn,
+    preview: tabState.isPreview ?? false,
+    preserveFocus: preserveFocus && !pending?.foldedRegions?.length
+  });
+  await applyPendingEditorState(editor);
+}
+
+// Whether the tab is the active one of its group and, with `focused`, that group has the focus.
+function isFrontTab(tabState: SavedTabState, focused: boolean): boolean {
+  const group = vscode.window.tabGroups.all.find(candidate => candidate.viewColumn === tabState.viewColumn);
+  const input = group?.activeTab ? describeTabInput(group.activeTab) : undefined;
+  const key = savedTabKey(tabState);
+  return !!group && (!focused || group.isActive) && !!input && !!key && savedTabKey(input) === key;
+}
+
+// Loads text documents with a bounded pool of concurrent reads, so opening the tabs afterwards only has to show them.
+// Returns the URIs that could not be loaded.
+async function preloadSessionDocuments(tabs: SavedTabState[], token: vscode.CancellationToken): Promise<Set<string>> {
+  const uris = [...new Set(tabs.flatMap(tabState => tabState.kind === 'text' ? [tabState.uri] : []))];
+  const unreadable = new Set<string>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < uris.length && !token.isCancellationRequested) {
+      const uri = uris[next++];
+      try {
+        await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+      } catch {
+        unreadable.add(uri);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(getRestoreConcurrency(), uris.length) }, worker));
+  return unreadable;
+}
+
+async function revealActiveTabs(restored: SavedTabState[]) {
+  for (const tabState of restored.filter(candidate => candidate.isGroupActive && !candidate.isGlobalActive)) {
+    await revealSavedTab(tabState, true);
+  }
+
+  const globalActive = restored.find(candidate => candidate.isGlobalActive);
+  if (globalActive) {
+    await revealSavedTab(globalActive, false);
+  }
+}
+
+async function arrangeRestoredTabs(restored: SavedTabState[], mode: RestoreMode) {
+  try {
+    // `pinEditor` acts on the active editor, so each pinned tab is focused before pinning it.
+    for (const tabState of restored.filter(candidate => candidate.isPinned)) {
+      await revealSavedTab(tabState, false);
+      await vscode.commands.executeCommand('workbench.action.pinEditor');
+    }
+
+    if (mode === 'replace') {
+      await enforceTabOrder(restored);
+    }
+  } catch (error) {
+    logError(error);
+  }
+}
+
+// Opening or moving a tab makes it the front tab of its group. Afterwards each group gets back the tab it showed before,
+// and the focused group its focus, so tabs handled behind the user's back only flash briefly.
+async function preservingActiveTabs(action: () => Promise<void>): Promise<void> {
+  const before = vscode.window.tabGroups.all.map(group => ({ viewColumn: group.viewColumn, tab: group.activeTab, focused: group.isActive }));
+  await action();
+
+  for (const { viewColumn, tab, focused } of before.sort((a, b) => Number(a.focused) - Number(b.focused))) {
+    const input = tab ? describeTabInput(tab) : undefined;
+    const key = input ? savedTabKey(input) : undefined;
+    const current = vscode.window.tabGroups.all.find(group => group.viewColumn === viewColumn)?.activeTab;
+    const currentInput = current ? describeTabInput(current) : undefined;
+    if (!input || !key || (currentInput && savedTabKey(currentInput) === key)) {
+      continue;
+    }
+
+    try {
+      await revealSavedTab({
+        ...input,
+        viewColumn,
+        groupIndex: 0,
+        tabIndex: 0,
+        isGroupActive: true,
+        isGlobalActive: focused,
+        isPreview: tab?.isPreview
+      }, !focused);
+    } catch (error) {
+      logError(error);
+    }
+  }
+}
+
+function cancelBackgroundRestore() {
+  backgroundRestore?.cancel();
+  backgroundRestore = undefined;
+}
+
+function findOpenTabIndex(viewColumn: vscode.ViewColumn, key: string): number {
+  const group = vscode.window.tabGroups.all.find(candidate => candidate.viewColumn === viewColumn);
+  if (!group) {
+    return -1;
+  }
+  return group.tabs.findIndex(tab => {
+    const input = describeTabInput(tab);
+    return !!input && savedTabKey(input) === key;
+  });
+}
+
+// Opening order alone does not guarantee tab order (pinning and editor settings can reorder tabs),
+// so move any tab that drifted back to its saved position. Positions count only the tabs still open in the group;
+// a preview tab may have been replaced by the next one.
+async function enforceTabOrder(restored: SavedTabState[]) {
+  const byColumn = new Map<vscode.ViewColumn, SavedTabState[]>();
+  for (const tabState of restored) {
+    if (tabState.viewColumn !== undefined) {
+      byColumn.set(tabState.viewColumn, [...(byColumn.get(tabState.viewColumn) ?? []), tabState]);
+    }
+  }
+
+  for (const [viewColumn, groupTabs] of byColumn) {
+    const ordered = [...groupTabs].sort((a, b) => a.tabIndex - b.tabIndex);
+    let position = 0;
+    for (const tabState of ordered) {
+      const key = savedTabKey(tabState);
+      // Tabs without a key (terminals) cannot be found again, but they still take their place in the group.
+      if (!key) {
+        position++;
+        continue;
+      }
+
+      const currentIndex = findOpenTabIndex(viewColumn, key);
+      if (currentIndex === -1) {
+        continue;
+      }
+      if (currentIndex !== position) {
+        await revealSavedTab(tabState, false);
+        await vscode.commands.executeCommand('moveActiveEditor', { to: 'position', by: 'tab', value: position + 1 });
+      }
+      position++;
+    }
+  }
+}
+
+// `outgoing` is a session just saved from the open editors; its stashed buffers are discarded once the restore closes them.
+async function restoreSessionFromEntry(context: vscode.ExtensionContext, entry: SessionFileRecord, mode: RestoreMode, outgoing?: SessionFileContent): Promise<void> {
+  // Tab changes made while restoring are intermediate states that autosave should not capture.
+  restoreInProgress = true;
+  try {
+    await restoreSessionTabs(context, entry, mode, outgoing);
+  } finally {
+    restoreInProgress = false;
+  }
+}
+
+async function restoreSessionTabs(context: vscode.ExtensionContext, entry: SessionFileRecord, mode: RestoreMode, outgoing?: SessionFileContent): Promise<void> {
+  if (mode === 'new window') {
+    await openSessionInNewWindow(context, entry);
+    return;
+  }
+
+  const sessionData = await readSessionFile(entry.fullPath);
+  if (!sessionData) {
+    return;
+  }
+
+  const { tabs: composedTabs, stash, composition } = await composeSessionTabs(context, entry, sessionData);
+  reportIncludeProblems(entry.name, composition);
+
+  if (composedTabs.length === 0) {
+    vscode.window.showWarningMessage(`Session "${entry.name}" does not contain any tabs.`);
+    return;
+  }
+
+  const { tabs: sessionTabs, unmapped } = resolveSessionTabs(composedTabs);
+  let openKeys = new Set<string>();
+
+  if (mode === 'replace') {
+    const sessionKeys = new Set(sessionTabs.map(savedTabKey).filter((key): key is string => !!key));
+    const outsideCount = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => {
+        const input = describeTabInput(tab);
+        const key = input ? savedTabKey(input) : undefined;
+        return !key || !sessionKeys.has(key);
+      }).length;
+
+    if (outsideCount > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${outsideCount} open tab(s) are not part of the session "${entry.name}". Close all editors and restore?`,
+        { modal: true },
+        'Close and Restore'
+      );
+
+      if (choice !== 'Close and Restore') {
+        vscode.window.showInformationMessage('Session restore canceled.');
+        return;
+      }
+    }
+
+    cancelBackgroundRestore();
+    if (outgoing) {
+      await discardStashedBuffers(outgoing);
+    }
+    await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    pendingEditorStates.clear();
+
+    // Build the grid first so each saved view column lands in its original cell.
+    if (sessionData.layout) {
+      try {
+        await vscode.commands.executeCommand('vscode.setEditorLayout', sessionData.layout);
+      } catch (err) {
+        logError(err);
+      }
+    }
+  } else {
+    cancelBackgroundRestore();
+    openKeys = collectOpenTabKeys();
+  }
+
+  const sortedTabs = [...sessionTabs].sort((a, b) => a.groupIndex - b.groupIndex || a.tabIndex - b.tabIndex);
+
+  const restored: SavedTabState[] = [];
+  const failed: SavedTabState[] = [];
+  let skipped = 0;
+  let duplicates = 0;
+
+  // Every tab opens in the background with its state deferred; only the tabs that end up visible are revealed at the end.
+  // With `keepFront`, each group keeps showing its current tab while the others open.
+  const openTabs = async (
+    tabs: SavedTabState[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken,
+    keepFront = false
+  ) => {
+    progress.report({ message: `Loading ${tabs.length} file(s)…` });
+    const unreadable = await preloadSessionDocuments(tabs.filter(isRestorableTab), token);
+
+    for (const [index, tabState] of tabs.entries()) {
+      if (token.isCancellationRequested) {
+        return false;
+      }
+      progress.report({ message: `${savedTabDisplayName(tabState)} (${index + 1}/${tabs.length})`, increment: 100 / tabs.length });
+
+      if (!isRestorableTab(tabState)) {
+        skipped++;
+        continue;
+      }
+
+      const key = savedTabKey(tabState);
+      if (key && openKeys.has(key)) {
+        duplicates++;
+        continue;
+      }
+
+      if (tabState.kind === 'text' && unreadable.has(tabState.uri)) {
+        failed.push(tabState);
+        continue;
+      }
+
+      try {
+        const open = async () => {
+          restored.push(await openSavedTab(tabState, true, stash, true));
+        };
+        await (keepFront ? preservingActiveTabs(open) : open());
+      } catch (error) {
+        failed.push(tabState);
+      }
+    }
+    return true;
+  };
+
+  // Lazy restores open the tabs that are visible first and hand the editor back. The rest open in the background
+  // until they are done or the next restore cancels them.
+  const lazy = isLazyRestoreEnabled() && sortedTabs.some(tabState => !tabState.isGroupActive);
+  const immediateTabs = lazy ? sortedTabs.filter(tabState => tabState.isGroupActive) : sortedTabs;
+  const backgroundTabs = lazy ? sortedTabs.filter(tabState => !tabState.isGroupActive) : [];
+
+  const completed = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Restoring session "${entry.name}"`, cancellable: true },
+    (progress, token) => openTabs(immediateTabs, progress, token)
+  );
+
+  if (!completed || backgroundTabs.length === 0) {
+    // A canceled restore leaves the tabs as they are.
+    if (completed) {
+      await arrangeRestoredTabs(restored, mode);
+      await revealActiveTabs(restored);
+    }
+    await finishRestore(context, entry, mode, sessionData, composition, { restored, failed, skipped, duplicates, unmapped, total: sortedTabs.length, completed });
+    return;
+  }
+
+  await revealActiveTabs(restored);
+
+  const source = new vscode.CancellationTokenSource();
+  backgroundRestore = source;
+  void Promise.resolve(vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: `Opening ${backgroundTabs.length} more tab(s) of "${entry.name}"` },
+    async progress => {
+      const backgroundCompleted = await openTabs(backgroundTabs, progress, source.token, true);
+      if (backgroundCompleted) {
+        await preservingActiveTabs(() => arrangeRestoredTabs(restored, mode));
+      }
+      return backgroundCompleted;
+    }
+  )).then(
+    backgroundCompleted => finishRestore(context, entry, mode, sessionData, composition, {
+      restored, failed, skipped, duplicates, unmapped, total: sortedTabs.length, completed: backgroundCompleted
+    }),
+    logError
+  ).finally(() => {
+    if (backgroundRestore === source) {
+      backgroundRestore = undefined;
+    }
+    source.dispose();
+  });
+}
+
+async function finishRestore(
+  context: vscode.ExtensionContext,
+  entry: SessionFileRecord,
+  mode: RestoreMode,
+  sessionData: SessionFileContent,
+  composition: SessionComposition,
+  { restored, failed, skipped, duplicates, unmapped, total, completed }: RestoreOutcome
+): Promise<void> {
+  const skippedNote = skipped > 0 ? ` ${skipped} tab(s) could not be reopened automatically.` : '';
+  const duplicateNote = duplicates > 0 ? ` ${duplicates} tab(s) were already open.` : '';
+  const notes = `${skippedNote}${duplicateNote}`;
+  const verb = mode === 'merge' ? 'Merged' : 'Restored';
+  if (!completed) {
+    vscode.window.showInformationMessage(`Restore of session "${entry.name}" canceled after opening ${restored.length} of ${total} tab(s).`);
+  } else if (failed.length === 0) {
+    vscode.window.showInformationMessage(`${verb} session "${entry.name}".${notes}`);
+  }
+  if (completed) {
+    await recordSessionRestore(context, entry.fullPath);
+    sessionTreeProvider?.refresh();
+  }
+
+  // The summary waits for a choice, so it must not hold up the restore (and autosave) until it is dismissed.
+  // Tabs that failed before a cancel are reported too.
+  void reportFailedTabs(context, entry, sessionData, composition, failed, completed ? notes : '').catch(err => {
+    logError(err);
+    vscode.window.showErrorMessage(`Failed to update session "${entry.name}": ${(err as Error).message}`);
+  });
+  await reportUnmappedTabs(entry.name, unmapped);
+}
+
+async function pickSessionEntry(context: vscode.ExtensionContext, placeHolder: string): Promise<SessionFileRecord | undefined> {
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: true });
+
+  if (entries.length === 0) {
+    vscode.window.showWarningMessage('No sessions found.');
+    return undefined;
+  }
+
+  const metadata = await Promise.all(entries.map(entry => readSessionMetadata(entry.fullPath)));
+  const selection = await vscode.window.showQuickPick(
+    entries.map((entry, index) => ({
+      label: qualifiedSessionName(entry),
+      description: metadata[index]?.description ?? entry.fullPath,
+      detail: describeMetadata(withRestoreCount(context, entry.fullPath, metadata[index])).join(' · ') || undefined,
+      entry
+    })),
+    { placeHolder, matchOnDescription: true, matchOnDetail: true }
+  );
+
+  return selection?.entry;
+}
+
+function folderFromArgument(arg?: SessionFolderRecord | SessionItem): SessionFolderRecord | undefined {
+  return arg instanceof SessionItem ? arg.folder : arg;
+}
+
+async function pickSessionDirectory(context: vscode.ExtensionContext, placeHolder: string): Promise<SessionDirectory | undefined> {
+  const primary = await resolveSessionDirectory(context, { promptUser: true, showWarning: true, ensureExists: true });
+  const directories = getSessionDirectories(primary);
+  if (directories.length < 2) {
+    return directories[0];
+  }
+
+  const selection = await vscode.window.showQuickPick(
+    directories.map(directory => ({
+      label: directory.workspaceFolder ?? path.basename(directory.sessionFolder),
+      description: directory.sessionFolder,
+      directory
+    })),
+    { placeHolder }
+  );
+  return selection?.directory;
+}
+
+async function pickSessionFolder(context: vscode.ExtensionContext, placeHolder: string): Promise<SessionFolderRecord | undefined> {
+  const { folders } = await listSessions(context, { promptUser: false, showWarning: true });
+  if (folders.length === 0) {
+    vscode.window.showWarningMessage('No session folders found.');
+    return undefined;
+  }
+
+  const selection = await vscode.window.showQuickPick(
+    folders.map(folder => ({
+      label: folder.relativePath,
+      description: folder.workspaceFolder,
+      folder
+    })),
+    { placeHolder }
+  );
+  return selection?.folder;
+}
+
+// Accepts a record, a tree item (from context menus), an absolute path, or a "folder/name" string.
+async function entryFromArgument(context: vscode.ExtensionContext, arg?: SessionFileRecord | string | SessionItem): Promise<SessionFileRecord | undefined> {
+  if (arg instanceof SessionItem) {
+    arg = arg.entry;
+  }
+
+  if (!arg) {
+    return undefined;
+  }
+
+  if (typeof arg !== 'string') {
+    if (storageExists(arg.fullPath)) {
+      return arg;
+    }
+    vscode.window.showWarningMessage(`Session file not found: ${arg.fullPath}`);
+    return undefined;
+  }
+
+  const normalized = arg.endsWith('.json') ? arg : `${arg}.json`;
+  if (storageExists(normalized)) {
+    return { name: path.basename(normalized, '.json'), fullPath: normalized };
+  }
+
+  const relativeFolder = parentFolderPath(normalized.replace(/\\/g, '/'));
+  const folder = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
+  const matches: SessionFileRecord[] = [];
+  for (const directory of getSessionDirectories(folder)) {
+    const root = path.resolve(directory.sessionFolder);
+    const candidate = path.resolve(root, normalized);
+    if (!candidate.startsWith(root + path.sep)) {
+      continue;
+    }
+    if (storageExists(candidate)) {
+      matches.push({
+        name: path.basename(candidate, '.json'),
+        fullPath: candidate,
+        workspaceFolder: directory.workspaceFolder,
+        relativeFolder: relativeFolder || undefined
+      });
+    }
+  }
+
+  if (matches.length === 0) {
+    vscode.window.showWarningMessage('Session file not found.');
+    return undefined;
+  }
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  // A bare name may exist in several workspace folders; rather than taking the first one, ask which is meant.
+  const selection = await vscode.window.showQuickPick(
+    matches.map(entry => ({ label: entry.workspaceFolder ?? path.dirname(entry.fullPath), description: entry.fullPath, entry })),
+    { placeHolder: `Session "${arg}" exists in ${matches.length} workspace folders. Select one` }
+  );
+  return selection?.entry;
+}
+
+//#endregion
+
+
+//#region Autosave
+
+// Autosaves live in the extension's per-workspace storage, away from named sessions
+// that may be committed under `.vscode/sessions`.
+function resolveAutosaveDirectory(context: vscode.ExtensionContext): string {
+  const base = context.storageUri ?? context.globalStorageUri;
+  return path.join(base.fsPath, AUTOSAVE_FOLDER_NAME);
+}
+
+function isAutosaveEntry(context: vscode.ExtensionContext, entry: SessionFileRecord): boolean {
+  return path.resolve(path.dirname(entry.fullPath)) === path.resolve(resolveAutosaveDirectory(context));
+}
+
+// Autosaves and archived versions are shown in the sidebar but never edited in place.
+function isReadOnlyEntry(context: vscode.ExtensionContext, entry: SessionFileRecord): boolean {
+  return isAutosaveEntry(context, entry) || entry.fullPath.split(path.sep).includes(HISTORY_FOLDER_NAME);
+}
+
+async function listAutosaves(context: vscode.ExtensionContext): Promise<SessionFileRecord[]> {
+  const folder = resolveAutosaveDirectory(context);
+  if (!fs.existsSync(folder)) {
+    return [];
+  }
+
+  const files = await fs.promises.readdir(folder);
+  // File names embed an ISO timestamp, so reverse name order is newest first.
+  return files
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(file => ({
+      name: path.basename(file, '.json'),
+      fullPath: path.join(folder, file)
+    }));
+}
+
+function describeAutosave(entry: SessionFileRecord): string {
+  const match = /^autosave-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})/.exec(entry.name);
+  if (!match) {
+    return entry.name;
+  }
+  const [, date, hours, minutes, seconds] = match;
+  return new Date(`${date}T${hours}:${minutes}:${seconds}Z`).toLocaleString();
+}
+
+async function writeAutosave(context: vscode.ExtensionContext): Promise<void> {
+  const snapshot = await createSessionSnapshot();
+  if (snapshot.tabs.length === 0) {
+    return;
+  }
+
+  // Metadata timestamps differ on every snapshot, so only the layout, tabs and stashed buffers
+  // (which change while typing) decide whether anything changed.
+  const content = JSON.stringify({ ...snapshot, metadata: undefined }) + JSON.stringify(collectBufferStash(snapshot));
+  if (content === lastAutosaveContent) {
+    return;
+  }
+
+  try {
+    const folder = resolveAutosaveDirectory(context);
+    await ensureDirectory(folder);
+    const fileName = `autosave-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    await writeSessionFile(path.join(folder, fileName), snapshot);
+    lastAutosaveContent = content;
+    await pruneAutosaves(context, getAutosaveSettings().retention);
+  } catch (err) {
+    logError(err, 'Autosave failed');
+  }
+}
+
+async function pruneAutosaves(context: vscode.ExtensionContext, retention: number) {
+  const entries = await listAutosaves(context);
+  for (const entry of entries.slice(retention)) {
+    await deleteSessionFile(entry.fullPath);
+  }
+}
+
+function scheduleAutosave(context: vscode.ExtensionContext) {
+  if (!getAutosaveSettings().enabled) {
+    return;
+  }
+
+  if (autosaveDebounce) {
+    clearTimeout(autosaveDebounce);
+  }
+
+  autosaveDebounce = setTimeout(() => {
+    autosaveDebounce = undefined;
+    if (restoreInProgress || backgroundRestore) {
+      scheduleAutosave(context);
+      return;
+    }
+    void writeAutosave(context);
+  }, AUTOSAVE_DEBOUNCE_MS);
+}
+
+function stopAutosaveTimers() {
+  if (autosaveTimer) {
+    clearInterval(autosaveTimer);
+    autosaveTimer = undefined;
+  }
+  if (autosaveDebounce) {
+    clearTimeout(autosaveDebounce);
+    autosaveDebounce = undefined;
+  }
+}
+
+function configureAutosaveTimer(context: vscode.ExtensionContext) {
+  stopAutosaveTimers();
+
+  const settings = getAutosaveSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  autosaveTimer = setInterval(() => {
+    if (!restoreInProgress && !backgroundRestore) {
+      void writeAutosave(context);
+    }
+  }, settings.intervalMinutes * 60 * 1000);
+}
+
+function initializeAutosave(context: vscode.ExtensionContext) {
+  configureAutosaveTimer(context);
+
+  const tabGroupsListener = vscode.window.tabGroups.onDidChangeTabGroups(() => scheduleAutosave(context));
+  const tabsListener = vscode.window.tabGroups.onDidChangeTabs(() => scheduleAutosave(context));
+  const configListener = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('sessionSaver.autosave')) {
+      configureAutosaveTimer(context);
+      void pruneAutosaves(context, getAutosaveSettings().retention);
+    }
+  });
+
+  context.subscriptions.push(tabGroupsListener, tabsListener, configListener, { dispose: stopAutosaveTimers });
+}
+
+async function offerLastAutosaveRestore(context: vscode.ExtensionContext) {
+  if (!getAutosaveSettings().enabled || hasOpenTabs()) {
+    return;
+  }
+
+  const [latest] = await listAutosaves(context);
+  if (!latest) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Restore your last session from ${describeAutosave(latest)}?`,
+    'Restore Last Session',
+    'Dismiss'
+  );
+
+  if (choice === 'Restore Last Session') {
+    await vscode.commands.executeCommand('session-saver.restoreNamedSession', latest);
+  }
+}
+
+//#endregion
+
+
+//#region Git branch sessions
+
+function isBoundTo(metadata: SessionMetadata | undefined, repository: string, branch: string): boolean {
+  return metadata?.boundBranch === branch && (!metadata.boundRepository || metadata.boundRepository === repository);
+}
+
+// Whether the session's branch is checked out in the repository it is bound to.
+function isBoundToCurrentBranch(metadata: SessionMetadata | undefined): boolean {
+  return [...currentGitBranches].some(([repository, branch]) => isBoundTo(metadata, repository, branch));
+}
+
+async function findBranchSession(context: vscode.ExtensionContext, repository: string, branch: string): Promise<SessionFileRecord | undefined> {
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  for (const entry of entries) {
+    const metadata = await readSessionMetadata(entry.fullPath);
+    if (isBoundTo(metadata, repository, branch)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+// With several repositories open, asks which one's branch is meant.
+async function pickCurrentBranch(placeHolder: string): Promise<{ repository: string; branch: string } | undefined> {
+  const branches = [...currentGitBranches].map(([repository, branch]) => ({ repository, branch }));
+  if (branches.length <= 1) {
+    return branches[0];
+  }
+
+  const selection = await vscode.window.showQuickPick(
+    branches.map(candidate => ({
+      label: candidate.branch,
+      description: vscode.Uri.parse(candidate.repository).fsPath,
+      candidate
+    })),
+    { placeHolder }
+  );
+  return selection?.candidate;
+}
+
+function branchSessionName(branch: string): string {
+  return `branch-${branch.replace(/[\\/:*?"<>|]+/g, '-')}`;
+}
+
+// Saves the outgoing branch's layout into its bound session, creating one named after the branch if needed.
+// Returns the saved snapshot, or `undefined` when nothing was written.
+async function saveBranchSession(context: vscode.ExtensionContext, repository: string, branch: string): Promise<SessionFileContent | undefined> {
+  const existing = await findBranchSession(context, repository, branch);
+  const previous = existing ? await readSessionMetadata(existing.fullPath) : undefined;
+  const snapshot = await createSessionSnapshot({ ...previous, boundBranch: branch, boundRepository: repository });
+  if (snapshot.tabs.length === 0) {
+    return undefined;
+  }
+
+  let filePath = existing?.fullPath;
+  if (!filePath) {
+    const sessionFolder = await resolveSaveDirectory(context, snapshot);
+    if (!sessionFolder) {
+      return undefined;
+    }
+    filePath = path.join(sessionFolder, `${branchSessionName(branch)}.json`);
+  }
+
+  await archiveSessionVersion(filePath, 'overwrite');
+  await writeSessionFile(filePath, snapshot);
+  return snapshot;
+}
+
+async function handleBranchSwitch(context: vscode.ExtensionContext, repository: string, from: string, to: string) {
+  const incoming = await findBranchSession(context, repository, to);
+  const behavior = getAutoSaveBehavior();
+  let saveOutgoing = behavior === 'yes';
+
+  if (behavior === 'ask' && hasOpenTabs()) {
+    const choice = await vscode.window.showInformationMessage(
+      incoming
+        ? `Switched from "${from}" to "${to}". Save the tabs of "${from}" before restoring session "${incoming.name}"?`
+        : `Switched from "${from}" to "${to}". Save the tabs of "${from}" to its branch session?`,
+      'Save and Switch',
+      'Just Switch',
+      'Keep Current Tabs'
+    );
+
+    if (!choice || choice === 'Keep Current Tabs') {
+      return;
+    }
+    saveOutgoing = choice === 'Save and Switch';
+  }
+
+  const outgoing = saveOutgoing ? await saveBranchSession(context, repository, from) : undefined;
+
+  if (incoming) {
+    await restoreSessionFromEntry(context, incoming, 'replace', outgoing);
+  }
+}
+
+function watchRepository(context: vscode.ExtensionContext, repository: GitRepository) {
+  const root = repository.rootUri.toString();
+  let lastBranch = repository.state.HEAD?.name;
+  if (lastBranch) {
+    currentGitBranches.set(root, lastBranch);
+  }
+
+  const listener = repository.state.onDidChange(async () => {
+    // A detached HEAD (e.g. mid-rebase) has no name; wait until a branch is checked out again.
+    const branch = repository.state.HEAD?.name;
+    if (!branch || branch === lastBranch) {
+      return;
+    }
+
+    const previous = lastBranch;
+    lastBranch = branch;
+    currentGitBranches.set(root, branch);
+    knownMissingFiles.clear();
+    sessionTreeProvider?.refresh();
+
+    if (!previous || !isBranchSessionsEnabled() || branchSwitchInProgress) {
+      return;
+    }
+
+    branchSwitchInProgress = true;
+    try {
+      await handleBranchSwitch(context, root, previous, branch);
+    } catch (err) {
+      logError(err);
+    } finally {
+      branchSwitchInProgress = false;
+    }
+  });
+
+  context.subscriptions.push(listener);
+}
+
+async function initializeBranchSessions(context: vscode.ExtensionContext) {
+  const git = await getGitAPI();
+  if (!git) {
+    return;
+  }
+
+  git.repositories.forEach(repository => watchRepository(context, repository));
+  context.subscriptions.push(git.onDidOpenRepository(repository => watchRepository(context, repository)));
+  sessionTreeProvider?.refresh();
+}
+
+//#endregion
+
+
+//#region Search
+
+// Both sides of a diff count, and saved paths are mapped onto the current workspace first.
+function savedTabMatchesUri(tabState: SavedTabState, uri: string): boolean {
+  if (!('uri' in tabState)) {
+    return false;
+  }
+  if ((resolveSavedUri(tabState.uri, tabState.location) ?? tabState.uri) === uri || tabState.uri === uri) {
+    return true;
+  }
+  return tabState.kind === 'diff'
+    && ((resolveSavedUri(tabState.originalUri, tabState.originalLocation) ?? tabState.originalUri) === uri || tabState.originalUri === uri);
+}
+
+function getActiveTabUri(): string | undefined {
+  const activeTab = vscode.window.tabGroups.activeTabGroup.activeTab;
+  return activeTab ? getTabUri(activeTab)?.toString() : undefined;
+}
+
+// Characters of the query must appear in order, not necessarily next to each other.
+function fuzzyMatch(query: string, text: string): boolean {
+  let position = 0;
+  for (const character of text) {
+    if (character === query[position]) {
+      position++;
+      if (position === query.length) {
+        return true;
+      }
+    }
+  }
+  return query.length === 0;
+}
+
+// Every word of the query must match: fuzzily against the session name, or as a substring of
+// its description, tags or file paths. Files that contain any word are reported as matches.
+async function searchSessions(context: vscode.ExtensionContext, query: string): Promise<SessionSearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  const results: SessionSearchResult[] = [];
+
+  for (const entry of entries) {
+    const content = await readSessionQuietly(entry.fullPath);
+    if (!content) {
+      continue;
+    }
+
+    const name = qualifiedSessionName(entry).toLowerCase();
+    const fields = [content.metadata?.description ?? '', ...(content.metadata?.tags ?? [])].map(field => field.toLowerCase());
+    const tabTexts = content.tabs.map(tabState => describeSavedLocation(tabState).toLowerCase());
+    const matches = terms.every(term =>
+      fuzzyMatch(term, name) || fields.some(field => field.includes(term)) || tabTexts.some(text => text.includes(term)));
+    if (!matches) {
+      continue;
+    }
+
+    results.push({
+      entry,
+      metadata: content.metadata,
+      matchedTabs: content.tabs.filter((_, index) => terms.some(term => tabTexts[index].includes(term)))
+    });
+  }
+
+  return results;
+}
+
+async function findSessionsContainingUri(context: vscode.ExtensionContext, uri: string): Promise<SessionSearchResult[]> {
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  const results: SessionSearchResult[] = [];
+  for (const entry of entries) {
+    const content = await readSessionQuietly(entry.fullPath);
+    const matchedTabs = content?.tabs.filter(tabState => savedTabMatchesUri(tabState, uri)) ?? [];
+    if (matchedTabs.length > 0) {
+      results.push({ entry, metadata: content?.metadata, matchedTabs });
+    }
+  }
+  return results;
+}
+
+// Restores through the regular command (so restore modes and save prompts apply), then focuses the tab if it was opened.
+// Untitled buffers come back under a new URI, so they are found by their stashed content instead.
+async function restoreSessionAtTab(entry: SessionFileRecord, tabState: SavedTabState) {
+  await vscode.commands.executeCommand('session-saver.restoreNamedSession', entry);
+
+  if (tabState.kind === 'untitled') {
+    const buffer = tabState.bufferId ? (await readBufferStash(entry.fullPath))[tabState.bufferId] : undefined;
+    const document = buffer && vscode.workspace.textDocuments.find(candidate => candidate.isUntitled && candidate.getText() === buffer.content);
+    if (document) {
+      await revealSavedTab({ ...tabState, uri: document.uri.toString() }, false);
+    }
+    return;
+  }
+
+  const [resolved] = resolveSessionTabs([tabState]).tabs;
+  const key = resolved ? savedTabKey(resolved) : undefined;
+  if (resolved && key && collectOpenTabKeys().has(key)) {
+    await revealSavedTab(resolved, false);
+  }
+}
+
+//#endregion
+
+
+//#region Compare
+
+// Placeholders have no URI, so they are told apart by kind and label.
+function comparisonKey(tabState: SavedTabState): string {
+  return savedTabKey(tabState) ?? `${tabState.kind}:${savedTabDisplayName(tabState)}`;
+}
+
+function describeTabPosition(tabState: SavedTabPlacement): string {
+  return `Group ${tabState.groupIndex + 1}, Tab ${tabState.tabIndex + 1}`;
+}
+
+function describeCursor(tabState: SavedTabPlacement): string {
+  const cursor = tabState.selections?.[0]?.active;
+  return cursor ? `${cursor.line + 1}:${cursor.character + 1}` : 'none';
+}
+
+// Both sides are mapped onto the current workspace first, so relative and absolute paths compare equal.
+// A file open in several groups is paired with its counterpart in the same group when possible.
+function compareSessionContents(before: SessionFileContent, after: SessionFileContent): SessionComparison {
+  const resolve = (tabs: SavedTabState[]) => {
+    const { tabs: resolved, unmapped } = resolveSessionTabs(tabs);
+    return [...resolved, ...unmapped].sort(compareTabPosition);
+  };
+  const beforeTabs = resolve(before.tabs);
+  const afterTabs = resolve(after.tabs);
+
+  const remaining = new Map<string, SavedTabState[]>();
+  for (const tabState of beforeTabs) {
+    const key = comparisonKey(tabState);
+    remaining.set(key, [...(remaining.get(key) ?? []), tabState]);
+  }
+
+  const comparison: SessionComparison = {
+    added: [],
+    removed: [],
+    moved: [],
+    cursorChanged: [],
+    unchanged: 0,
+    groupCount: {
+      before: new Set(beforeTabs.map(tabState => tabState.groupIndex)).size,
+      after: new Set(afterTabs.map(tabState => tabState.groupIndex)).size
+    }
+  };
+
+  for (const tabState of afterTabs) {
+    const candidates = remaining.get(comparisonKey(tabState)) ?? [];
+    const match = candidates.find(candidate => candidate.groupIndex === tabState.groupIndex) ?? candidates[0];
+    if (!match) {
+      comparison.added.push(tabState);
+      continue;
+    }
+    candidates.splice(candidates.indexOf(match), 1);
+
+    const moved = match.groupIndex !== tabState.groupIndex || match.tabIndex !== tabState.tabIndex;
+    const cursorChanged = JSON.stringify(match.selections ?? []) !== JSON.stringify(tabState.selections ?? []);
+    if (moved) {
+      comparison.moved.push({ before: match, after: tabState });
+    }
+    if (cursorChanged) {
+      comparison.cursorChanged.push({ before: match, after: tabState });
+    }
+    if (!moved && !cursorChanged) {
+      comparison.unchanged++;
+    }
+  }
+
+  comparison.removed = [...remaining.values()].flat().sort(compareTabPosition);
+  return comparison;
+}
+
+function renderComparison(beforeLabel: string, afterLabel: string, comparison: SessionComparison): string {
+  const lines = [
+    `# ${beforeLabel} → ${afterLabel}`,
+    '',
+    `${comparison.added.length} added · ${comparison.removed.length} removed · ${comparison.moved.length} moved · `
+      + `${comparison.cursorChanged.length} cursor change(s) · ${comparison.unchanged} unchanged`
+  ];
+
+  if (comparison.groupCount.before !== comparison.groupCount.after) {
+    lines.push('', `Editor groups: ${comparison.groupCount.before} → ${comparison.groupCount.after}`);
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      lines.push('', `## ${title}`, '', ...items.map(item => `- ${item}`));
+    }
+  };
+
+  section('Added', comparison.added.map(tabState => `\`${describeSavedLocation(tabState)}\` (${describeTabPosition(tabState)})`));
+  section('Removed', comparison.removed.map(tabState => `\`${describeSavedLocation(tabState)}\` (${describeTabPosition(tabState)})`));
+  section('Moved', comparison.moved.map(change =>
+    `\`${describeSavedLocation(change.after)}\`: ${describeTabPosition(change.before)} → ${describeTabPosition(change.after)}`));
+  section('Cursor Changes', comparison.cursorChanged.map(change =>
+    `\`${describeSavedLocation(change.after)}\`: ${describeCursor(change.before)} → ${describeCursor(change.after)}`));
+
+  if (comparison.added.length + comparison.removed.length + comparison.moved.length + comparison.cursorChanged.length === 0) {
+    lines.push('', 'No differences.');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Comparisons are rendered into read-only virtual Markdown documents.
+async function showComparison(beforeLabel: string, before: SessionFileContent, afterLabel: string, after: SessionFileContent, preserveFocus = false) {
+  const uri = vscode.Uri.from({
+    scheme: COMPARE_DOCUMENT_SCHEME,
+    path: `/${beforeLabel} ↔ ${afterLabel}.md`,
+    query: String(Date.now())
+  });
+  compareDocuments.set(uri.toString(), renderComparison(beforeLabel, afterLabel, compareSessionContents(before, after)));
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  await vscode.window.showTextDocument(document, { preview: true, preserveFocus, viewColumn: vscode.ViewColumn.Beside });
+}
+
+//#endregion
+
+
+//#region Session History
+
+// Versions live in a dot-folder next to the session (`.history/<name>/`), which session listings skip.
+function sessionHistoryDirectory(sessionPath: string): string {
+  return path.join(path.dirname(sessionPath), HISTORY_FOLDER_NAME, path.basename(sessionPath, '.json'));
+}
+
+function describeHistoryOperation(operation: SessionHistoryOperation): string {
+  switch (operation) {
+    case 'overwrite':
+      return 'before overwrite';
+    case 'edit':
+      return 'before edit';
+    case 'delete':
+      return 'deleted';
+    case 'restore':
+      return 'before restoring an older version';
+  }
+}
+
+async function listSessionVersions(sessionPath: string): Promise<SessionHistoryVersion[]> {
+  const directory = sessionHistoryDirectory(sessionPath);
+  if (!storageExists(directory)) {
+    return [];
+  }
+
+  const files = await storageFor(directory).readDirectory(directory);
+  const versions: SessionHistoryVersion[] = [];
+  for (const { name: file } of files) {
+    const version = parseHistoryVersionFileName(file);
+    if (!version) {
+      continue;
+    }
+    versions.push({ sessionPath, fullPath: path.join(directory, file), timestamp: version.timestamp, operation: version.operation });
+  }
+
+  return versions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+async function pruneSessionHistory(sessionPath: string) {
+  // One at a time: memento-backed storage rewrites its whole state on every change.
+  for (const version of (await listSessionVersions(sessionPath)).slice(getHistoryLimit())) {
+    await deleteSessionFile(version.fullPath);
+  }
+}
+
+// Renamed and moved sessions keep their history. A history already at the target gets the versions merged into it,
+// and the source folder is removed once nothing is left in it.
+async function moveSessionHistory(sessionPath: string, targetPath: string) {
+  const source = sessionHistoryDirectory(sessionPath);
+  const target = sessionHistoryDirectory(targetPath);
+  if (!storageExists(source)) {
+    return;
+  }
+  if (!storageExists(target)) {
+    await ensureDirectory(path.dirname(target));
+    await renameStoredFile(source, target);
+    return;
+  }
+
+  const taken = new Set((await storageFor(target).readDirectory(target)).map(dirent => dirent.name));
+  for (const { name: file } of await storageFor(source).readDirectory(source)) {
+    const merged = mergedHistoryFileName(file, taken);
+    if (!merged) {
+      continue;
+    }
+    taken.add(merged);
+    const versionPath = path.join(source, file);
+    await renameStoredFile(versionPath, path.join(target, merged));
+    if (storageExists(bufferStashPath(versionPath))) {
+      await renameStoredFile(bufferStashPath(versionPath), bufferStashPath(path.join(target, merged)));
+    }
+  }
+
+  if ((await storageFor(source).readDirectory(source)).length === 0) {
+    await deleteStoredFile(source);
+  }
+}
+
+// Copies the current file and its buffer stash into the history; deletes move them there instead.
+async function archiveSessionVersion(sessionPath: string, operation: SessionHistoryOperation): Promise<SessionHistoryVersion | undefined> {
+  if (!storageExists(sessionPath)) {
+    return undefined;
+  }
+
+  const directory = sessionHistoryDirectory(sessionPath);
+  await ensureDirectory(directory);
+  const timestamp = new Date().toISOString();
+  const versionPath = path.join(directory, historyVersionFileName(timestamp, operation));
+  const transfer = (source: string, target: string) =>
+    operation === 'delete' ? renameStoredFile(source, target) : sessionStorage.copyFile(source, target);
+
+  await transfer(sessionPath, versionPath);
+  const stashPath = bufferStashPath(sessionPath);
+  if (storageExists(stashPath)) {
+    await transfer(stashPath, bufferStashPath(versionPath));
+  }
+
+  await pruneSessionHistory(sessionPath);
+  return { sessionPath, fullPath: versionPath, timestamp, operation };
+}
+
+// The version being replaced is archived first (and returned), so restoring can itself be undone.
+async function restoreSessionVersion(version: SessionHistoryVersion): Promise<SessionHistoryVersion | undefined> {
+  const replaced = await archiveSessionVersion(version.sessionPath, 'restore');
+  await ensureDirectory(path.dirname(version.sessionPath));
+  await writeStoredFile(version.sessionPath, await readStoredFile(version.fullPath));
+
+  const versionStash = bufferStashPath(version.fullPath);
+  const sessionStash = bufferStashPath(version.sessionPath);
+  if (storageExists(versionStash)) {
+    await writeStoredFile(sessionStash, await readStoredFile(versionStash));
+  } else if (storageExists(sessionStash)) {
+    await deleteStoredFile(sessionStash);
+  }
+
+  return replaced;
+}
+
+// Not awaited by callers: the toast can stay open in the notification center long after the command finished.
+async function offerUndo(message: string, versions: Array<SessionHistoryVersion | undefined>) {
+  const archived = versions.filter((version): version is SessionHistoryVersion => !!version);
+  const choice = await vscode.window.showInformationMessage(message, ...(archived.length > 0 ? ['Undo'] : []));
+  if (choice !== 'Undo') {
+    return;
+  }
+
+  for (const version of archived) {
+    await restoreSessionVersion(version);
+  }
+  vscode.window.showInformationMessage(`Restored ${archived.length} session(s) to their previous version.`);
+}
+
+// Includes deleted sessions, whose history outlives them, and deleted autosaves.
+async function listSessionHistory(context: vscode.ExtensionContext): Promise<SessionHistoryRecord[]> {
+  const { folders, folder } = await listSessions(context, { promptUser: false, showWarning: false });
+  const directories: Array<{ directory: string; workspaceFolder?: string; relativeFolder?: string }> = [
+    ...getSessionDirectories(folder).map(directory => ({ directory: directory.sessionFolder, workspaceFolder: directory.workspaceFolder })),
+    ...folders.map(record => ({
+      directory: resolveFolderPath(record),
+      workspaceFolder: record.workspaceFolder,
+      relativeFolder: record.relativePath
+    })),
+    { directory: resolveAutosaveDirectory(context), relativeFolder: AUTOSAVE_FOLDER_NAME }
+  ];
+
+  const records: SessionHistoryRecord[] = [];
+  for (const { directory, workspaceFolder, relativeFolder } of directories) {
+    const historyRoot = path.join(directory, HISTORY_FOLDER_NAME);
+    if (!storageExists(historyRoot)) {
+      continue;
+    }
+
+    const dirents = await storageFor(historyRoot).readDirectory(historyRoot);
+    for (const dirent of dirents.filter(candidate => candidate.isDirectory)) {
+      const entry: SessionFileRecord = {
+        name: dirent.name,
+        fullPath: path.join(directory, `${dirent.name}.json`),
+        workspaceFolder,
+        relativeFolder
+      };
+      const versions = await listSessionVersions(entry.fullPath);
+      if (versions.length > 0) {
+        records.push({ entry, versions });
+      }
+    }
+  }
+
+  return records.sort((a, b) => qualifiedSessionName(a.entry).localeCompare(qualifiedSessionName(b.entry), undefined, { sensitivity: 'base' }));
+}
+
+//#endregion
+
+
+//#region Import and Export
+
+// Every tab inside a workspace folder is exported by its folder-relative location only; branch bindings are local
+// to one clone and are left out. Stashed buffers hold unsaved text, so they are only included when asked for.
+async function createBundleEntry(entry: SessionFileRecord, includeBuffers: boolean): Promise<SessionBundleEntry | undefined> {
+  const content = await readSessionFile(entry.fullPath);
+  if (!content) {
+    return undefined;
+  }
+
+  const tabs = content.tabs.map(tabState => {
+    let located = 'uri' in tabState && !tabState.location ? { ...tabState, location: toWorkspaceLocation(tabState.uri) } : tabState;
+    if (located.kind === 'diff' && !located.originalLocation) {
+      located = { ...located, originalLocation: toWorkspaceLocation(located.originalUri) };
+    }
+    return toPortableTab(located);
+  });
+  const buffers = includeBuffers ? await readBufferStash(entry.fullPath) : {};
+
+  return {
+    name: entry.name,
+    folder: entry.relativeFolder,
+    content: { ...content, metadata: { ...content.metadata, boundBranch: undefined, boundRepository: undefined }, tabs },
+    buffers: Object.keys(buffers).length > 0 ? buffers : undefined
+  };
+}
+
+// Imported tabs only carry a location. They get the URI it has in this workspace; without a matching folder the URI
+// is a placeholder named after the folder, and restore still maps the location once that folder is open.
+function locationToUri(location: SavedWorkspaceLocation): string {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const folder = folders.find(candidate => candidate.name === location.folder) ?? (folders.length === 1 ? folders[0] : undefined);
+  return folder
+    ? vscode.Uri.joinPath(folder.uri, ...location.path.split('/')).toString()
+    : vscode.Uri.file(path.posix.join('/', location.folder, location.path)).toString();
+}
+
+// Asks before unsaved buffer contents leave the machine; undefined when the export was cancelled.
+async function confirmBundleBuffers(entries: SessionFileRecord[]): Promise<boolean | undefined> {
+  const withBuffers = entries.filter(entry => storageExists(bufferStashPath(entry.fullPath)));
+  if (withBuffers.length === 0) {
+    return false;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `${withBuffers.length} of the exported session(s) have unsaved buffers. Include their contents in the bundle?`,
+    { modal: true, detail: 'Anyone with the bundle can read the unsaved text.' },
+    'Include Buffers',
+    'Leave Out'
+  );
+  return choice === undefined ? undefined : choice === 'Include Buffers';
+}
+
+async function pickImportDirectory(context: vscode.ExtensionContext): Promise<string | undefined> {
+  const current = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
+  const options: Array<{ label: string; description?: string; value: 'current' | 'workspace' | 'global' | 'folder' }> = [];
+  if (current) {
+    options.push({ label: 'Current Session Location', description: current, value: 'current' });
+  }
+  if (vscode.workspace.workspaceFolders?.length) {
+    options.push({ label: 'Workspace', description: 'A workspace folder\'s .vscode/sessions', value: 'workspace' });
+  }
+  options.push(
+    { label: 'Global Storage', description: 'VS Code global storage', value: 'global' },
+    { label: 'Other Folder…', description: 'Choose any folder on disk', value: 'folder' }
+  );
+
+  const selection = await vscode.window.showQuickPick(options, { placeHolder: 'Where should the imported sessions be stored?' });
+  if (!selection) {
+    return undefined;
+  }
+
+  if (selection.value === 'current') {
+    return (await pickSessionDirectory(context, 'Select where to import the sessions'))?.sessionFolder;
+  }
+  if (selection.value === 'workspace') {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const picked = folders.length === 1
+      ? folders[0]
+      : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select a workspace folder to import into' });
+    return picked ? workspaceSessionDirectory(picked.uri.fsPath) : undefined;
+  }
+  if (selection.value === 'global') {
+    return path.join(context.globalStorageUri.fsPath, SESSION_FOLDER_NAME);
+  }
+  return selectFolderDialog('Select a folder to import the sessions into', 'Import Here');
+}
+
+// Returns undefined when the user chose to skip a session whose name is already taken.
+async function resolveImportPath(directory: string, sessionName: string): Promise<string | undefined> {
+  const target = path.join(directory, `${sessionName}.json`);
+  if (!storageExists(target)) {
+    return target;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `A session named "${sessionName}" already exists in the target location.`,
+    { modal: true, detail: 'Cancel skips this session.' },
+    'Overwrite',
+    'Keep Both'
+  );
+  if (choice === 'Overwrite') {
+    return target;
+  }
+  if (choice !== 'Keep Both') {
+    return undefined;
+  }
+
+  let counter = 1;
+  let candidate = path.join(directory, `${sessionName} (imported).json`);
+  while (storageExists(candidate)) {
+    counter++;
+    candidate = path.join(directory, `${sessionName} (imported ${counter}).json`);
+  }
+  return candidate;
+}
+
+//#endregion
+
+
+//#region Extension API
+
+async function findSessionByName(context: vscode.ExtensionContext, name: string): Promise<SessionFileRecord | undefined> {
+  const normalized = name.trim().replace(/\\/g, '/').replace(/\.json$/, '');
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  return entries.find(entry => qualifiedSessionName(entry) === normalized);
+}
+
+async function requireSessionByName(context: vscode.ExtensionContext, name: string): Promise<SessionFileRecord> {
+  const entry = await findSessionByName(context, name);
+  if (!entry) {
+    throw new Error(`Session "${name}" not found.`);
+  }
+  return entry;
+}
+
+function toSessionSummary(entry: SessionFileRecord): SessionSummary {
+  return { name: qualifiedSessionName(entry), path: entry.fullPath, workspaceFolder: entry.workspaceFolder };
+}
+
+async function saveSessionByName(context: vscode.ExtensionContext, name: string, options: SaveSessionOptions = {}): Promise<SessionSummary> {
+  const segments = name.trim().replace(/\\/g, '/').split('/');
+  for (const segment of segments) {
+    const error = validatePathSegment(segment, 'Session name');
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  const existing = await findSessionByName(context, name);
+  if (existing && !options.overwrite) {
+    throw new Error(`Session "${name}" already exists.`);
+  }
+
+  const snapshot = await createSessionSnapshot(existing ? await readSessionMetadata(existing.fullPath) : undefined);
+  if (snapshot.tabs.length === 0) {
+    throw new Error('No supported tabs to save.');
+  }
+
+  let filePath = existing?.fullPath;
+  if (!filePath) {
+    const sessionFolder = await resolveSaveDirectory(context, snapshot);
+    if (!sessionFolder) {
+      throw new Error('No session folder is available.');
+    }
+    filePath = path.join(sessionFolder, ...segments.map(segment => segment.trim())) + '.json';
+    await ensureDirectory(path.dirname(filePath));
+  }
+
+  await archiveSessionVersion(filePath, 'overwrite');
+  await writeSessionFile(filePath, snapshot);
+
+  const relativeFolder = segments.slice(0, -1).join('/');
+  return toSessionSummary(existing ?? {
+    name: path.basename(filePath, '.json'),
+    fullPath: filePath,
+    relativeFolder: relativeFolder || undefined
+  });
+}
+
+// Backs the API returned from `activate` with the same helpers the commands use; failures are thrown rather than shown.
+function createSessionSaverApi(context: vscode.ExtensionContext): SessionSaverApi {
+  context.subscriptions.push(
+    sessionsChangedEmitter,
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (['fileLocation', 'workspaceFolder', 'customFolder'].some(key => event.affectsConfiguration(`sessionSaver.${key}`))) {
+        notifySessionsChanged();
+      }
+    })
+  );
+
+  return {
+    version: 1,
+    onDidChangeSessions: sessionsChangedEmitter.event,
+    async listSessions() {
+      const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+      return entries.map(toSessionSummary);
+    },
+    saveSession: (name, options) => saveSessionByName(context, name, options),
+    async restoreSession(name, mode) {
+      if (mode && !parseRestoreMode(mode)) {
+        throw new Error(`Unknown restore mode "${mode}". Expected one of: ${RESTORE_MODES.join(', ')}.`);
+      }
+      const entry = await requireSessionByName(context, name);
+      const resolvedMode = await resolveRestoreMode(mode);
+      if (!resolvedMode) {
+        return false;
+      }
+      await restoreSessionFromEntry(context, entry, resolvedMode);
+      return true;
+    },
+    async deleteSession(name) {
+      const entry = await requireSessionByName(context, name);
+      await archiveSessionVersion(entry.fullPath, 'delete');
+    },
+    async readSession(name) {
+      const entry = await findSessionByName(context, name);
+      return entry ? readSessionFile(entry.fullPath) : undefined;
+    }
+  };
+}
+
+// Handles `vscode://monkey-sheng.session-saver/restore?name=<session>[&mode=<mode>]` links.
+function registerSessionUriHandler(context: vscode.ExtensionContext) {
+  const disposable = vscode.window.registerUriHandler({
+    handleUri: async (uri: vscode.Uri) => {
+      const params = new URLSearchParams(uri.query);
+      const name = params.get('name');
+      if (uri.path !== '/restore' || !name) {
+        vscode.window.showWarningMessage(`Unsupported Session Saver link: ${uri.toString(true)}`);
+        return;
+      }
+
+      const entry = await findSessionByName(context, name);
+      if (!entry) {
+        vscode.window.showWarningMessage(`Session "${name}" not found.`);
+        return;
+      }
+
+      // Goes through the command so a link gets the same save-first prompt as the sidebar.
+      await vscode.commands.executeCommand('session-saver.restoreNamedSession', entry, params.get('mode') ?? undefined);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+//#endregion
+
+
+//#region Commands
+
+// An empty (or dismissed) name falls back to a timestamped one.
+async function promptNewSessionName(prompt: string): Promise<string> {
+  const sessionName = await vscode.window.showInputBox({
+    prompt,
+    placeHolder: 'Leave empty to use a timestamped name',
+    validateInput: value => value.trim() ? validatePathSegment(value, 'Session name') : undefined
+  });
+
+  return sessionName?.trim() || `session-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+}
+
+// Picks the save folder and asks before replacing a session with the same name.
+// Returns the name the session was saved under, or undefined when cancelled.
+async function writeNewSession(context: vscode.ExtensionContext, sessionName: string, snapshot: SessionFileContent): Promise<string | undefined> {
+  const sessionFolder = await resolveSaveDirectory(context, snapshot);
+  if (!sessionFolder) {
+    return undefined;
+  }
+
+  let name = sessionName;
+  let content = snapshot;
+  while (storageExists(path.join(sessionFolder, `${name}.json`))) {
+    const choice = await vscode.window.showWarningMessage(
+      `A session named "${name}" already exists.`,
+      { modal: true },
+      'Overwrite',
+      'Rename'
+    );
+
+    if (choice === 'Overwrite') {
+      // Overwriting keeps the description, tags and history of the session being replaced.
+      const previous = await readSessionMetadata(path.join(sessionFolder, `${name}.json`));
+      content = {
+        ...snapshot,
+        metadata: {
+          ...previous,
+          ...snapshot.metadata,
+          createdAt: previous?.createdAt ?? snapshot.metadata?.createdAt,
+          restoreCount: previous?.restoreCount ?? snapshot.metadata?.restoreCount
+        }
+      };
+      break;
+    }
+    if (choice !== 'Rename') {
+      return undefined;
+    }
+
+    const renamed = await promptSessionName(sessionFolder, 'Enter a different name for this session');
+    if (!renamed) {
+      return undefined;
+    }
+    name = renamed;
+  }
+
+  const filePath = path.join(sessionFolder, `${name}.json`);
+  await archiveSessionVersion(filePath, 'overwrite');
+  await writeSessionFile(filePath, content);
+  return name;
+}
+
+function registerSaveSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.saveSession', async () => {
+    const requestedName = await promptNewSessionName('Enter a name for this session');
+
+    const snapshot = await createSessionSnapshot();
+
+    if (snapshot.tabs.length === 0) {
+      vscode.window.showInformationMessage('No supported tabs to save.');
+      return;
+    }
+
+    const sessionName = await writeNewSession(context, requestedName, snapshot);
+    if (!sessionName) {
+      return;
+    }
+
+    vscode.window.showInformationMessage(`Session "${sessionName}" saved with ${snapshot.tabs.length} tabs.`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRestoreSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.restoreSession', async () => {
+    const entry = await pickSessionEntry(context, 'Select a session to restore');
+    if (!entry) {
+      return;
+    }
+
+    const mode = await resolveRestoreMode();
+    if (!mode) {
+      return;
+    }
+
+    await restoreSessionFromEntry(context, entry, mode);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRestoreNamedSessionCommand(context: vscode.ExtensionContext) {
+  // Keybindings pass a single `{ session, mode }` object; other callers may pass the mode positionally.
+  const disposable = vscode.commands.registerCommand('session-saver.restoreNamedSession', async (arg?: SessionFileRecord | string | RestoreNamedSessionArgs, modeArg?: string) => {
+    let sessionArg: SessionFileRecord | string | undefined;
+    let requestedMode: string | undefined = modeArg;
+
+    if (arg && typeof arg === 'object' && !('fullPath' in arg)) {
+      sessionArg = arg.session;
+      requestedMode = arg.mode ?? modeArg;
+    } else {
+      sessionArg = arg;
+    }
+
+    const pinnedMode = parseRestoreMode(requestedMode);
+    if (requestedMode && !pinnedMode) {
+      vscode.window.showWarningMessage(`Unknown restore mode "${requestedMode}". Expected one of: ${RESTORE_MODES.join(', ')}.`);
+      return;
+    }
+
+    let entry = await entryFromArgument(context, sessionArg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to restore');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const mode = await resolveRestoreMode(pinnedMode);
+    if (!mode) {
+      return;
+    }
+
+    // Only replacing discards the current tabs, so only then offer to save them first.
+    let outgoing: SessionFileContent | undefined;
+    const hasOpenFiles = vscode.workspace.textDocuments.some(doc => !doc.isUntitled && !doc.isClosed);
+    if (hasOpenFiles && mode === 'replace') {
+      const behavior = getAutoSaveBehavior();
+      let finalChoice: string | undefined;
+
+      if (behavior === 'yes') {
+        finalChoice = 'Yes — Save and Continue';
+      } else if (behavior === 'no') {
+        finalChoice = 'No — Just Switch';
+      } else {
+        finalChoice = await vscode.window.showQuickPick(
+          ['Yes — Save and Continue', 'No — Just Switch', 'Cancel'],
+          { placeHolder: 'Save current open files as a session before switching?' }
+        );
+      }
+
+      if (finalChoice === 'Cancel' || !finalChoice) {
+        return;
+      }
+
+      if (finalChoice === 'Yes — Save and Continue') {
+        const unsavedDocs = vscode.workspace.textDocuments.filter(doc => doc.isDirty && !doc.isUntitled);
+        if (unsavedDocs.length > 0 && !isBufferStashEnabled()) {
+          const saveConfirm = await vscode.window.showQuickPick(
+            ['💾 Save and Continue', '⚠️ Continue Without Saving', 'Cancel'],
+            { placeHolder: `You have ${unsavedDocs.length} unsaved file(s). What do you want to do?` }
+          );
+
+          if (saveConfirm === '💾 Save and Continue') {
+            await vscode.workspace.saveAll();
+          } else if (saveConfirm === 'Cancel') {
+            return;
+          }
+        }
+
+        const snapshot = await createSessionSnapshot();
+        if (snapshot.tabs.length === 0) {
+          vscode.window.showInformationMessage('No supported tabs to save.');
+          return;
+        }
+
+        const requestedName = await promptNewSessionName('Enter a name to save your current session');
+        const sessionName = await writeNewSession(context, requestedName, snapshot);
+        if (!sessionName) {
+          return;
+        }
+        vscode.window.showInformationMessage(`Session "${sessionName}" saved with ${snapshot.tabs.length} tabs.`);
+        outgoing = snapshot;
+      } else if (finalChoice === 'Cancel' || !finalChoice) {
+        return;
+      }
+    }
+
+    await restoreSessionFromEntry(context, entry, mode, outgoing);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerDeleteSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.deleteSession', async (arg?: SessionFileRecord | string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to delete');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete session "${entry.name}"?`,
+      { modal: true },
+      'Delete'
+    );
+
+    if (confirm !== 'Delete') {
+      return;
+    }
+
+    const archived = await archiveSessionVersion(entry.fullPath, 'delete');
+
+    void offerUndo(`Deleted session "${entry.name}".`, [archived]);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerOverwriteSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.overwriteSession', async (arg?: SessionFileRecord | string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to overwrite');
+    }
+    if (!entry) {
+      return;
+    }
+
+    // The preview opens beside the current editors, so the layout is captured before it appears.
+    const previous = await readSessionMetadata(entry.fullPath);
+    let snapshot: SessionFileContent | undefined;
+    if (isOverwritePreviewEnabled()) {
+      snapshot = await createSessionSnapshot(previous);
+      const current = await readSessionFile(entry.fullPath);
+      if (current) {
+        await showComparison(`"${entry.name}"`, current, 'Current Layout', snapshot, true);
+      }
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Overwrite session "${entry.name}" with currently open files?`,
+      { modal: true },
+      'Overwrite'
+    );
+
+    if (confirm !== 'Overwrite') {
+      return;
+    }
+
+    const unsavedDocs = vscode.workspace.textDocuments.filter(doc => doc.isDirty && !doc.isUntitled);
+    if (unsavedDocs.length > 0 && !isBufferStashEnabled()) {
+      const saveConfirm = await vscode.window.showQuickPick(
+        ['💾 Save and Continue', '⚠️ Continue Without Saving', 'Cancel'],
+        { placeHolder: `You have ${unsavedDocs.length} unsaved file(s). What do you want to do?` }
+      );
+
+      if (saveConfirm === '💾 Save and Continue') {
+        await vscode.workspace.saveAll();
+      } else if (saveConfirm === 'Cancel') {
+        return;
+      }
+    }
+
+    snapshot = snapshot ?? await createSessionSnapshot(previous);
+    if (snapshot.tabs.length === 0) {
+      vscode.window.showInformationMessage('No supported tabs to save.');
+      return;
+    }
+
+    await ensureDirectory(path.dirname(entry.fullPath));
+    const archived = await archiveSessionVersion(entry.fullPath, 'overwrite');
+    await writeSessionFile(entry.fullPath, snapshot);
+
+    void offerUndo(`Session "${entry.name}" overwritten with ${snapshot.tabs.length} tabs.`, [archived]);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerChangeLocationCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.changeFileLocation', async () => {
+    const location = getFileLocationSetting();
+    const options: Array<{ label: string; value: SessionLocationSetting; description: string }> = [
+      { label: 'Workspace', value: 'workspace', description: 'Store sessions inside a workspace folder' },
+      { label: 'Global Storage', value: 'global', description: 'Store sessions inside VS Code global storage' },
+      { label: 'Custom Folder…', value: 'custom', description: 'Choose any folder on disk' },
+      { label: 'Settings Sync', value: 'settingsSync', description: 'Store sessions in extension state that roams with Settings Sync' },
+      { label: 'Workspace State', value: 'workspaceState', description: 'Store sessions in this workspace\'s extension state, without writing files' }
+    ];
+
+    const selection = await vscode.window.showQuickPick(
+      options.map(opt => ({
+        label: opt.label,
+        description: opt.description,
+        picked: opt.value === location,
+        value: opt.value
+      })),
+      { placeHolder: 'Choose where Session Saver stores its files' }
+    );
+
+    if (!selection) {
+      return;
+    }
+
+    const previousFolder = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
+
+    if (selection.value === 'workspace') {
+      const folder = await resolveWorkspaceBase(true, true);
+      if (!folder) {
+        return;
+      }
+      await updateConfigValue('fileLocation', 'workspace');
+      vscode.window.showInformationMessage(`Session storage set to workspace folder: ${folder}`);
+    } else if (selection.value === 'global') {
+      await updateConfigValue('fileLocation', 'global');
+      vscode.window.showInformationMessage('Session storage set to global storage.');
+    } else if (selection.value === 'settingsSync' || selection.value === 'workspaceState') {
+      await updateConfigValue('fileLocation', selection.value);
+      vscode.window.showInformationMessage(`Session storage set to ${selection.label.toLowerCase()}.`);
+    } else {
+      const folder = await resolveCustomBase(true, true);
+      if (!folder) {
+        return;
+      }
+      await updateConfigValue('fileLocation', 'custom');
+      vscode.window.showInformationMessage(`Session storage set to custom folder: ${folder}`);
+    }
+
+    await offerSessionMigration(context, previousFolder);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerDeleteAllSessionsCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.deleteAllSessions', async () => {
+    const { entries, folder } = await listSessions(context, { promptUser: false, showWarning: true });
+    if (!folder) {
+      vscode.window.showInformationMessage('No session folder found.');
+      return;
+    }
+
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('No sessions to delete.');
+      return;
+    }
+
+    // Multi-root workspaces list the sessions of every folder, so the confirmation spells out each one.
+    const directories = [...new Set(entries.map(sessionRootOf))];
+    const counts = directories.map(directory => {
+      const inDirectory = entries.filter(entry => sessionRootOf(entry) === directory);
+      const workspaceFolder = inDirectory[0].workspaceFolder;
+      return `${workspaceFolder ? `${workspaceFolder}: ` : ''}${inDirectory.length} session(s) in ${directory}`;
+    });
+    const scope = directories.length > 1 ? `across ${directories.length} workspace folders` : `in ${directories[0]}`;
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete all ${entries.length} session(s) ${scope}?`,
+      { modal: true, detail: directories.length > 1 ? counts.join('\n') : undefined },
+      'Delete All'
+    );
+
+    if (confirm !== 'Delete All') {
+      return;
+    }
+
+    const archived: Array<SessionHistoryVersion | undefined> = [];
+    for (const entry of entries) {
+      archived.push(await archiveSessionVersion(entry.fullPath, 'delete'));
+    }
+    void offerUndo(`Deleted ${entries.length} session(s).`, archived);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerEditSessionMetadataCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.editSessionMetadata', async (arg?: SessionFileRecord | string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to edit');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const current = await readSessionMetadata(entry.fullPath);
+
+    const description = await vscode.window.showInputBox({
+      prompt: `Description for session "${entry.name}"`,
+      value: current?.description ?? '',
+      placeHolder: 'What is this session for?'
+    });
+    if (description === undefined) {
+      return;
+    }
+
+    const tagsInput = await vscode.window.showInputBox({
+      prompt: `Tags for session "${entry.name}"`,
+      value: (current?.tags ?? []).join(', '),
+      placeHolder: 'Comma-separated, e.g. backend, review'
+    });
+    if (tagsInput === undefined) {
+      return;
+    }
+
+    const tags = [...new Set(tagsInput.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0))];
+    const updated = await updateSessionFile(entry.fullPath, content => ({
+      ...content,
+      metadata: {
+        ...content.metadata,
+        description: description.trim() || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        updatedAt: new Date().toISOString()
+      }
+    }));
+
+    if (updated) {
+      vscode.window.showInformationMessage(`Updated details of session "${entry.name}".`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerBindSessionToBranchCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.bindSessionToBranch', async (arg?: SessionFileRecord | string) => {
+    if (currentGitBranches.size === 0) {
+      vscode.window.showWarningMessage('No git branch is checked out in this workspace.');
+      return;
+    }
+    const current = await pickCurrentBranch('Select the repository whose branch the session is bound to');
+    if (!current) {
+      return;
+    }
+    const { repository, branch } = current;
+
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, `Select a session to bind to branch "${branch}"`);
+    }
+    if (!entry) {
+      return;
+    }
+
+    // A branch maps to a single session, so release any previous binding first.
+    const previous = await findBranchSession(context, repository, branch);
+    if (previous && previous.fullPath !== entry.fullPath) {
+      await updateSessionFile(previous.fullPath, content => ({
+        ...content,
+        metadata: { ...content.metadata, boundBranch: undefined, boundRepository: undefined }
+      }));
+    }
+
+    await updateSessionFile(entry.fullPath, content => ({
+      ...content,
+      metadata: { ...content.metadata, boundBranch: branch, boundRepository: repository }
+    }));
+
+    vscode.window.showInformationMessage(`Session "${entry.name}" is now bound to branch "${branch}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerUnbindSessionFromBranchCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.unbindSessionFromBranch', async (arg?: SessionFileRecord | string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to unbind from its branch');
+    }
+    if (!entry) {
+      return;
+    }
+
+    await updateSessionFile(entry.fullPath, content => ({
+      ...content,
+      metadata: { ...content.metadata, boundBranch: undefined, boundRepository: undefined }
+    }));
+
+    vscode.window.showInformationMessage(`Session "${entry.name}" is no longer bound to a branch.`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRestoreLastAutosaveCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.restoreLastAutosave', async () => {
+    const [latest] = await listAutosaves(context);
+    if (!latest) {
+      vscode.window.showInformationMessage('No autosaved session found for this workspace.');
+      return;
+    }
+
+    await vscode.commands.executeCommand('session-saver.restoreNamedSession', latest);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerCreateSessionFolderCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.createSessionFolder', async (arg?: SessionFolderRecord | SessionItem) => {
+    let parent = folderFromArgument(arg);
+    if (!parent) {
+      const directory = await pickSessionDirectory(context, 'Select where to create the folder');
+      if (!directory) {
+        return;
+      }
+      parent = { ...directory, relativePath: '' };
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: parent.relativePath ? `New folder inside "${parent.relativePath}"` : 'New session folder name',
+      validateInput: value => validatePathSegment(value, 'Folder name')
+    });
+    if (!name) {
+      return;
+    }
+
+    const folderName = name.trim();
+    const target = path.join(resolveFolderPath(parent), folderName);
+    if (storageExists(target)) {
+      vscode.window.showWarningMessage(`Folder "${folderName}" already exists.`);
+      return;
+    }
+
+    await storageFor(target).createDirectory(target);
+    vscode.window.showInformationMessage(`Created session folder "${folderName}".`);
+    sessionTreeProvider?.refresh();
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRenameSessionFolderCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.renameSessionFolder', async (arg?: SessionFolderRecord | SessionItem) => {
+    const folder = folderFromArgument(arg) ?? await pickSessionFolder(context, 'Select a folder to rename');
+    if (!folder) {
+      return;
+    }
+
+    const currentName = path.posix.basename(folder.relativePath);
+    const name = await vscode.window.showInputBox({
+      prompt: `Rename folder "${folder.relativePath}"`,
+      value: currentName,
+      validateInput: value => validatePathSegment(value, 'Folder name')
+    });
+    if (!name || name.trim() === currentName) {
+      return;
+    }
+
+    const folderName = name.trim();
+    const source = resolveFolderPath(folder);
+    const target = path.join(path.dirname(source), folderName);
+    if (storageExists(target)) {
+      vscode.window.showWarningMessage(`Folder "${folderName}" already exists.`);
+      return;
+    }
+
+    await renameStoredFile(source, target);
+    vscode.window.showInformationMessage(`Renamed folder "${currentName}" to "${folderName}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+// Moves stay within the session's own storage directory; the buffer stash travels with the session.
+function registerMoveSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.moveSession', async (arg?: SessionFileRecord | string | SessionItem, targetArg?: string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to move');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const root = sessionRootOf(entry);
+    let targetFolder = targetArg;
+    if (targetFolder === undefined) {
+      const { folders } = await listSessions(context, { promptUser: false, showWarning: false });
+      const currentFolder = entry.relativeFolder ?? '';
+      const candidates = folders
+        .filter(folder => path.resolve(folder.sessionFolder) === path.resolve(root) && folder.relativePath !== currentFolder)
+        .map(folder => ({ label: `📁 ${folder.relativePath}`, relativePath: folder.relativePath }));
+      if (currentFolder) {
+        candidates.unshift({ label: '(top level)', relativePath: '' });
+      }
+      if (candidates.length === 0) {
+        vscode.window.showWarningMessage('No other session folder to move to. Create one first.');
+        return;
+      }
+
+      const selection = await vscode.window.showQuickPick(candidates, { placeHolder: `Move "${entry.name}" to…` });
+      if (!selection) {
+        return;
+      }
+      targetFolder = selection.relativePath;
+    } else if (targetFolder && targetFolder.split('/').some(segment => validatePathSegment(segment, 'Folder name'))) {
+      vscode.window.showWarningMessage(`Invalid session folder "${targetFolder}".`);
+      return;
+    }
+
+    const targetDirectory = resolveFolderPath({ sessionFolder: root, relativePath: targetFolder });
+    const targetPath = path.join(targetDirectory, path.basename(entry.fullPath));
+    if (path.resolve(targetPath) === path.resolve(entry.fullPath)) {
+      return;
+    }
+    if (storageExists(targetPath)) {
+      vscode.window.showWarningMessage(`A session named "${entry.name}" already exists in "${targetFolder || 'the top level'}".`);
+      return;
+    }
+
+    await storageFor(targetDirectory).createDirectory(targetDirectory);
+    await renameStoredFile(entry.fullPath, targetPath);
+    const stashPath = bufferStashPath(entry.fullPath);
+    if (storageExists(stashPath)) {
+      await renameStoredFile(stashPath, bufferStashPath(targetPath));
+    }
+    await moveSessionHistory(entry.fullPath, targetPath);
+    await retargetSessionIncludes(context, entry, targetPath);
+
+    vscode.window.showInformationMessage(`Moved session "${entry.name}" to "${targetFolder || 'the top level'}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerAppendToSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.appendToSession', async (arg?: SessionFileRecord | string | SessionItem) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to add the open tabs to');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const snapshot = await createSessionSnapshot();
+    if (snapshot.tabs.length === 0) {
+      vscode.window.showInformationMessage('No supported tabs to save.');
+      return;
+    }
+
+    const added = await appendTabsToSession(entry.fullPath, snapshot);
+    if (added === 0) {
+      vscode.window.showInformationMessage(`All open tabs are already part of session "${entry.name}".`);
+      return;
+    }
+
+    vscode.window.showInformationMessage(`Added ${added} tab(s) to session "${entry.name}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerEditSessionIncludesCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.editSessionIncludes', async (arg?: SessionFileRecord | string | SessionItem) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to include other sessions in');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const content = await readSessionFile(entry.fullPath);
+    if (!content) {
+      return;
+    }
+
+    // Sessions that already include this one (directly or further down) would form a cycle.
+    const target = path.resolve(entry.fullPath);
+    const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+    const current = new Set(content.includes ?? []);
+    const candidates: SessionFileRecord[] = [];
+    for (const candidate of entries) {
+      if (path.resolve(candidate.fullPath) === target) {
+        continue;
+      }
+      const candidateContent = await readSessionQuietly(candidate.fullPath);
+      const { layers } = candidateContent
+        ? await collectSessionIncludes(context, candidate, candidateContent)
+        : { layers: [] };
+      if (!layers.some(layer => path.resolve(layer.entry.fullPath) === target)) {
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('There are no other sessions to include.');
+      return;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+      candidates.map(candidate => ({
+        label: qualifiedSessionName(candidate),
+        description: candidate.workspaceFolder,
+        picked: current.has(qualifiedSessionName(candidate))
+      })),
+      { placeHolder: `Select the sessions to open along with "${entry.name}"`, canPickMany: true }
+    );
+    if (!selection) {
+      return;
+    }
+
+    // Names that no longer resolve are kept, so an include is not lost while its session is being renamed or imported.
+    const candidateNames = new Set(candidates.map(qualifiedSessionName));
+    const includes = [
+      ...(content.includes ?? []).filter(name => !candidateNames.has(name) || selection.some(item => item.label === name)),
+      ...selection.map(item => item.label).filter(name => !current.has(name))
+    ];
+
+    if (await updateSessionIncludes(entry.fullPath, includes)) {
+      vscode.window.showInformationMessage(includes.length > 0
+        ? `Session "${entry.name}" now includes ${includes.map(name => `"${name}"`).join(', ')}.`
+        : `Session "${entry.name}" no longer includes other sessions.`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRemoveSessionIncludeCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.removeSessionInclude', async (arg?: SessionItem) => {
+    if (!arg?.includedBy || !arg.includeName) {
+      await vscode.commands.executeCommand('session-saver.editSessionIncludes');
+      return;
+    }
+
+    const content = await readSessionFile(arg.includedBy.fullPath);
+    if (!content) {
+      return;
+    }
+
+    const includes = (content.includes ?? []).filter(name => name !== arg.includeName);
+    if (await updateSessionIncludes(arg.includedBy.fullPath, includes)) {
+      vscode.window.showInformationMessage(`Session "${arg.includedBy.name}" no longer includes "${arg.includeName}".`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerRemoveFileFromSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.removeFileFromSession', async (arg?: SessionItem | SessionTabReference) => {
+    let reference = arg instanceof SessionItem
+      ? (arg.entry && arg.tabPosition ? { sessionPath: arg.entry.fullPath, ...arg.tabPosition } : undefined)
+      : arg;
+
+    if (!reference) {
+      const entry = await pickSessionEntry(context, 'Select a session to remove a file from');
+      if (!entry) {
+        return;
+      }
+      const sessionData = await readSessionFile(entry.fullPath);
+      if (!sessionData || sessionData.tabs.length === 0) {
+        vscode.window.showWarningMessage(`Session "${entry.name}" has no files.`);
+        return;
+      }
+
+      const selection = await vscode.window.showQuickPick(
+        [...sessionData.tabs].sort(compareTabPosition).map(tabState => ({
+          label: savedTabDisplayName(tabState),
+          description: `Group ${tabState.groupIndex + 1}, Tab ${tabState.tabIndex + 1}`,
+          detail: describeSavedLocation(tabState),
+          tabState
+        })),
+        { placeHolder: `Select a file to remove from "${entry.name}"` }
+      );
+      if (!selection) {
+        return;
+      }
+      reference = { sessionPath: entry.fullPath, groupIndex: selection.tabState.groupIndex, tabIndex: selection.tabState.tabIndex };
+    }
+
+    if (await removeSessionTab(reference)) {
+      vscode.window.showInformationMessage('Removed the file from the session.');
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+
+// Names are validated as the user types, including against sessions already in the same folder.
+async function promptSessionName(directory: string, prompt: string, value?: string): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    prompt,
+    value,
+    validateInput: input => validatePathSegment(input, 'Session name')
+      ?? (input.trim() !== value && storageExists(path.join(directory, `${input.trim()}.json`))
+        ? `A session named "${input.trim()}" already exists here.`
+        : undefined)
+  });
+  return name?.trim();
+}
+
+function registerRenameSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.renameSession', async (arg?: SessionFileRecord | string | SessionItem, newNameArg?: string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to rename');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const directory = path.dirname(entry.fullPath);
+    let newName = newNameArg?.trim();
+    if (newName === undefined) {
+      newName = await promptSessionName(directory, `Rename session "${entry.name}"`, entry.name);
+    } else {
+      const invalid = validatePathSegment(newName, 'Session name');
+      if (invalid) {
+        vscode.window.showWarningMessage(invalid);
+        return;
+      }
+    }
+    if (!newName || newName === entry.name) {
+      return;
+    }
+
+    const targetPath = path.join(directory, `${newName}.json`);
+    if (storageExists(targetPath)) {
+      vscode.window.showWarningMessage(`A session named "${newName}" already exists.`);
+      return;
+    }
+
+    await renameStoredFile(entry.fullPath, targetPath);
+    const stashPath = bufferStashPath(entry.fullPath);
+    if (storageExists(stashPath)) {
+      await renameStoredFile(stashPath, bufferStashPath(targetPath));
+    }
+    await moveSessionHistory(entry.fullPath, targetPath);
+    await retargetSessionIncludes(context, entry, targetPath);
+
+    vscode.window.showInformationMessage(`Renamed session "${entry.name}" to "${newName}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+// The copy starts with fresh timestamps and restore count, and without the branch binding,
+// since a branch maps to a single session.
+function registerDuplicateSessionCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.duplicateSession', async (arg?: SessionFileRecord | string | SessionItem, newNameArg?: string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to duplicate');
+    }
+    if (!entry) {
+      return;
+    }
+
+    const directory = path.dirname(entry.fullPath);
+    let copyName = newNameArg?.trim();
+    if (copyName === undefined) {
+      let suggestion = `${entry.name} copy`;
+      for (let counter = 2; storageExists(path.join(directory, `${suggestion}.json`)); counter++) {
+        suggestion = `${entry.name} copy ${counter}`;
+      }
+      copyName = await promptSessionName(directory, `Name for the copy of "${entry.name}"`, suggestion);
+    } else {
+      const invalid = validatePathSegment(copyName, 'Session name');
+      if (invalid) {
+        vscode.window.showWarningMessage(invalid);
+        return;
+      }
+    }
+    if (!copyName) {
+      return;
+    }
+
+    const targetPath = path.join(directory, `${copyName}.json`);
+    if (storageExists(targetPath)) {
+      vscode.window.showWarningMessage(`A session named "${copyName}" already exists.`);
+      return;
+    }
+
+    const content = await readSessionFile(entry.fullPath);
+    if (!content) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const copy: SessionFileContent = {
+      ...content,
+      metadata: { ...content.metadata, createdAt: now, updatedAt: now, restoreCount: 0, boundBranch: undefined, boundRepository: undefined }
+    };
+    await writeStoredFile(targetPath, JSON.stringify(copy, null, 2));
+    const stashPath = bufferStashPath(entry.fullPath);
+    if (storageExists(stashPath)) {
+      await writeStoredFile(bufferStashPath(targetPath), await readStoredFile(stashPath));
+    }
+
+    vscode.window.showInformationMessage(`Duplicated session "${entry.name}" as "${copyName}".`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerExportSessionsCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.exportSessions', async (arg?: SessionFileRecord | string | SessionItem) => {
+    let entries: SessionFileRecord[] = [];
+    const single = await entryFromArgument(context, arg);
+    if (single) {
+      entries = [single];
+    } else {
+      const { entries: available } = await listSessions(context, { promptUser: false, showWarning: true });
+      if (available.length === 0) {
+        vscode.window.showWarningMessage('No sessions found.');
+        return;
+      }
+      const selection = await vscode.window.showQuickPick(
+        available.map(entry => ({ label: qualifiedSessionName(entry), description: entry.workspaceFolder, entry })),
+        { placeHolder: 'Select the sessions to export', canPickMany: true }
+      );
+      entries = selection?.map(item => item.entry) ?? [];
+    }
+    if (entries.length === 0) {
+      return;
+    }
+
+    const includeBuffers = await confirmBundleBuffers(entries);
+    if (includeBuffers === undefined) {
+      return;
+    }
+
+    const sessions = (await Promise.all(entries.map(entry => createBundleEntry(entry, includeBuffers))))
+      .filter((bundleEntry): bundleEntry is SessionBundleEntry => !!bundleEntry);
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const defaultName = sessions.length === 1 ? sessions[0].name : 'sessions';
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: workspaceRoot
+        ? vscode.Uri.joinPath(workspaceRoot, `${defaultName}.${SESSION_BUNDLE_EXTENSION}`)
+        : undefined,
+      filters: { 'Session Bundles': [SESSION_BUNDLE_EXTENSION] },
+      saveLabel: 'Export',
+      title: 'Export Sessions'
+    });
+    if (!target) {
+      return;
+    }
+
+    const bundle: SessionBundle = {
+      format: SESSION_BUNDLE_FORMAT,
+      version: SESSION_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      sessions
+    };
+    // The bundle goes to the file the user picked, never into session storage.
+    await fs.promises.writeFile(target.fsPath, JSON.stringify(bundle, null, 2), 'utf8');
+
+    vscode.window.showInformationMessage(`Exported ${sessions.length} session(s) to ${target.fsPath}.`);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerImportSessionsCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.importSessions', async (source?: vscode.Uri) => {
+    if (!source) {
+      const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: { 'Session Bundles': [SESSION_BUNDLE_EXTENSION], 'Session Files': ['json'] },
+        openLabel: 'Import',
+        title: 'Import Sessions'
+      });
+      source = picked?.[0];
+    }
+    if (!source) {
+      return;
+    }
+
+    let bundle: ReturnType<typeof parseSessionBundle>;
+    try {
+      const raw = await fs.promises.readFile(source.fsPath, 'utf8');
+      bundle = parseSessionBundle(JSON.parse(raw), path.basename(source.fsPath, path.extname(source.fsPath)));
+    } catch (err) {
+      logError(err);
+    }
+    if (!bundle || bundle.sessions.length === 0) {
+      vscode.window.showWarningMessage(`No valid sessions found in ${source.fsPath}.`);
+      return;
+    }
+
+    let sessions = bundle.sessions;
+    if (sessions.length > 1) {
+      const selection = await vscode.window.showQuickPick(
+        sessions.map(session => ({
+          label: session.folder ? `${session.folder}/${session.name}` : session.name,
+          description: session.content.metadata?.description,
+          picked: true,
+          session
+        })),
+        { placeHolder: 'Select the sessions to import', canPickMany: true }
+      );
+      sessions = selection?.map(item => item.session) ?? [];
+      if (sessions.length === 0) {
+        return;
+      }
+    }
+
+    const directory = await pickImportDirectory(context);
+    if (!directory) {
+      return;
+    }
+
+    let imported = 0;
+    let unmappedCount = 0;
+    for (const bundled of sessions) {
+      const session = { ...bundled, content: { ...bundled.content, tabs: bundled.content.tabs.map(tabState => fromPortableTab(tabState, locationToUri)) } };
+      const folderPath = session.folder ? path.join(directory, ...session.folder.split('/')) : directory;
+      await ensureDirectory(folderPath);
+      const targetPath = await resolveImportPath(folderPath, session.name);
+      if (!targetPath) {
+        continue;
+      }
+
+      await archiveSessionVersion(targetPath, 'overwrite');
+      await writeStoredFile(targetPath, JSON.stringify(session.content, null, 2));
+      const stashPath = bufferStashPath(targetPath);
+      if (session.buffers && Object.keys(session.buffers).length > 0) {
+        const stash: BufferStashContent = { version: BUFFER_STASH_VERSION, buffers: session.buffers };
+        await writeStoredFile(stashPath, JSON.stringify(stash));
+      } else if (storageExists(stashPath)) {
+        await deleteStoredFile(stashPath);
+      }
+      imported++;
+
+      const { unmapped } = resolveSessionTabs(session.content.tabs);
+      if (unmapped.length > 0) {
+        logUnmappedTabs(path.basename(targetPath, '.json'), unmapped);
+        unmappedCount += unmapped.length;
+      }
+    }
+
+    const skippedEntries = bundle.invalid > 0 ? ` ${bundle.invalid} invalid entr${bundle.invalid === 1 ? 'y was' : 'ies were'} skipped.` : '';
+    const skippedTabs = bundle.skippedTabs > 0 ? ` ${bundle.skippedTabs} invalid tab(s) were skipped.` : '';
+    const skipped = `${skippedEntries}${skippedTabs}`;
+    const listed = getSessionDirectories(await resolveSessionDirectory(context, { promptUser: false, showWarning: false }))
+      .some(candidate => path.resolve(candidate.sessionFolder) === path.resolve(directory));
+    const hidden = listed ? '' : ' Switch the storage location to that folder to see them in the sidebar.';
+    if (unmappedCount > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Imported ${imported} session(s). ${unmappedCount} file(s) do not match the current workspace.${skipped}${hidden}`,
+        'Show Report'
+      );
+      if (choice === 'Show Report') {
+        getOutputChannel().show();
+      }
+    } else {
+      vscode.window.showInformationMessage(`Imported ${imported} session(s).${skipped}${hidden}`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerFindSessionContainingFileCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('session-saver.findSessionContainingFile', async (uri?: vscode.Uri) => {
+    const target = uri?.toString() ?? getActiveTabUri();
+    if (!target) {
+      vscode.window.showInformationMessage('Open a file to find the sessions that contain it.');
+      return;
+    }
+
+    const fileName = path.basename(vscode.Uri.parse(target).path);
+    const results = await findSessionsContainingUri(context, target);
+    if (results.length === 0) {
+      vscode.window.showInformationMessage(`No session contains "${fileName}".`);
+      return;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+      results.flatMap(result => result.matchedTabs.map(tabState => ({
+        label: qualifiedSessionName(result.entry),
+        description: `Group ${tabState.groupIndex + 1}, Tab ${tabState.tabIndex + 1}${tabState.kind === 'diff' ? ' · Diff' : ''}`,
+        detail: describeMetadata(withRestoreCount(context, result.entry.fullPath, result.metadata)).join(' · ') || undefined,
+        entry: result.entry,
+        tabState
+      }))),
+      { placeHolder: `Sessions containing "${fileName}"`, matchOnDescription: true, matchOnDetail: true }
+    );
+    if (!selection) {
+      return;
+    }
+
+    await restoreSessionAtTab(selection.entry, selection.tabState);
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+function registerFilterSessionsCommands(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('session-saver.filterSessions', async (query?: string) => {
+      if (query === undefined) {
+        query = await vscode.window.showInputBox({
+          prompt: 'Filter sessions by name, tag, description or file path',
+          placeHolder: 'e.g. api tests',
+          value: sessionTreeProvider?.getFilter()
+        });
+      }
+      if (query === undefined) {
+        return;
+      }
+      await sessionTreeProvider?.setFilter(query.trim());
+    }),
+    vscode.commands.registerCommand('session-saver.clearSessionFilter', async () => {
+      await sessionTreeProvider?.setFilter('');
+    }),
+    // Internal: used by file matches in the filtered sidebar.
+    vscode.commands.registerCommand('session-saver.restoreSessionAtTab', restoreSessionAtTab)
+  );
+}
+
+function registerCompareSessionCommand(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(COMPARE_DOCUMENT_SCHEME, {
+      provideTextDocumentContent: uri => compareDocuments.get(uri.toString()) ?? ''
+    }),
+    vscode.workspace.onDidCloseTextDocument(document => {
+      if (document.uri.scheme === COMPARE_DOCUMENT_SCHEME) {
+        compareDocuments.delete(document.uri.toString());
+      }
+    })
+  );
+
+  // The second argument may be another session, or omitted to pick one (or the current layout).
+  const disposable = vscode.commands.registerCommand('session-saver.compareSession', async (arg?: SessionFileRecord | string | SessionItem, otherArg?: SessionFileRecord | string) => {
+    let entry = await entryFromArgument(context, arg);
+    if (!entry) {
+      entry = await pickSessionEntry(context, 'Select a session to compare');
+    }
+    if (!entry) {
+      return;
+    }
+    const base = entry;
+
+    let other = await entryFromArgument(context, otherArg);
+    if (!other) {
+      const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+      const selection = await vscode.window.showQuickPick(
+        [
+          { label: '$(window) Current Layout', description: 'The tabs open right now', entry: undefined as SessionFileRecord | undefined },
+          ...entries
+            .filter(candidate => candidate.fullPath !== base.fullPath)
+            .map(candidate => ({ label: qualifiedSessionName(candidate), description: candidate.workspaceFolder, entry: candidate as SessionFileRecord | undefined }))
+        ],
+        { placeHolder: `Compare "${base.name}" with…` }
+      );
+      if (!selection) {
+        return;
+      }
+      other = selection.entry;
+    }
+
+    const before = await readSessionFile(base.fullPath);
+    if (!before) {
+      return;
+    }
+
+    if (other) {
+      const after = await readSessionFile(other.fullPath);
+      if (after) {
+        await showComparison(`"${base.name}"`, before, `"${other.name}"`, after);
+      }
+    } else {
+      await showComparison(`"${base.name}"`, before, 'Current Layout', await createSessionSnapshot());
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+async function pickSessionVersion(context: vscode.ExtensionContext): Promise<SessionHistoryVersion | undefined> {
+  const history = await listSessionHistory(context);
+  if (history.length === 0) {
+    vscode.window.showInformationMessage('No previous session versions found.');
+    return undefined;
+  }
+
+  const record = await vscode.window.showQuickPick(
+    history.map(candidate => ({
+      label: qualifiedSessionName(candidate.entry),
+      description: `${candidate.versions.length} version(s)${storageExists(candidate.entry.fullPath) ? '' : ' · deleted'}`,
+      candidate
+    })),
+    { placeHolder: 'Select a session' }
+  );
+  if (!record) {
+    return undefined;
+  }
 
-  for (const { tab, uri } of currentTabs) {
-    if (!sessionUris.has(uri.toString())) {
-      const choice = await vscode.window.showWarningMessage(
-        `Tab \"${tab.label}\" is not part of the session \"${entry.name}\". Close it to continue restoring?`,
-        { modal: true },
-        'Close Tab',
-        'Cancel Restore'
-      );
+  const selection = await vscode.window.showQuickPick(
+    record.candidate.versions.map(version => ({
+      label: formatTimestamp(version.timestamp) ?? version.timestamp,
+      description: describeHistoryOperation(version.operation),
+      version
+    })),
+    { placeHolder: `Select a version of "${record.candidate.entry.name}"` }
+  );
+  return selection?.version;
+}
 
-      if (choice !== 'Close Tab') {
-        vscode.window.showInformationMessage('Session restore canceled.');
+function registerSessionHistoryCommands(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('session-saver.restoreSessionVersion', async (version?: SessionHistoryVersion) => {
+      version = version ?? await pickSessionVersion(context);
+      if (!version) {
         return;
       }
 
-      await vscode.window.tabGroups.close(tab);
-    }
-  }
+      const name = path.basename(version.sessionPath, '.json');
+      const when = formatTimestamp(version.timestamp) ?? version.timestamp;
+      const replaced = await restoreSessionVersion(version);
+      void offerUndo(`Session "${name}" restored to the version from ${when}.`, [replaced]);
+    }),
+    vscode.commands.registerCommand('session-saver.compareSessionVersion', async (version?: SessionHistoryVersion) => {
+      version = version ?? await pickSessionVersion(context);
+      if (!version) {
+        return;
+      }
 
-  await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+      const name = path.basename(version.sessionPath, '.json');
+      if (!storageExists(version.sessionPath)) {
+        vscode.window.showInformationMessage(`Session "${name}" was deleted, so there is no current version to compare with.`);
+        return;
+      }
 
-  const sortedTabs = [...sessionData.tabs].sort((a, b) => {
-    if (a.groupIndex === b.groupIndex) {
-      if (a.isGroupActive === b.isGroupActive) {
-        return a.tabIndex - b.tabIndex;
+      const before = await readSessionFile(version.fullPath);
+      const after = await readSessionFile(version.sessionPath);
+      if (before && after) {
+        await showComparison(`"${name}" (${formatTimestamp(version.timestamp)})`, before, `"${name}"`, after);
       }
-      return a.isGroupActive ? 1 : -1;
-    }
-    return a.groupIndex - b.groupIndex;
-  });
+    })
+  );
+}
+//#endregion
 
-  let globalActive: SavedTabState | undefined;
 
-  for (const tabState of sortedTabs) {
-    const uri = vscode.Uri.parse(tabState.uri);
-    try {
-      const doc = await vscode.workspace.openTextDocument(uri);
-      const editor = await vscode.window.showTextDocument(doc, {
-        viewColumn: tabState.viewColumn,
-        preview: false,
-        preserveFocus: true
-      });
 
-      if (tabState.cursor) {
-        const position = new vscode.Position(tabState.cursor.line, tabState.cursor.character);
-        editor.selection = new vscode.Selection(position, position);
-        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
-        recordCursorPosition(uri, position);
-      }
-    } catch (error) {
-      vscode.window.showWarningMessage(`Failed to open file: ${uri.fsPath}`);
-    }
+//#region Session Editing
 
-    if (tabState.isGlobalActive) {
-      globalActive = tabState;
-    }
-  }
+// `ordered` must be sorted by position. Tabs that change group lose their active flags.
+function insertSessionTabs(ordered: SavedTabState[], inserted: SavedTabState[], destination: SessionTabDestination, anchor?: SavedTabState): SavedTabState[] {
+  const viewColumn = ordered.find(tabState => tabState.groupIndex === destination.groupIndex)?.viewColumn
+    ?? destination.groupIndex + 1;
+  const moved = inserted.map(tabState => {
+    const sameGroup = tabState.groupIndex === destination.groupIndex;
+    return {
+      ...tabState,
+      groupIndex: destination.groupIndex,
+      viewColumn,
+      isGroupActive: sameGroup && tabState.isGroupActive,
+      isGlobalActive: sameGroup && tabState.isGlobalActive
+    };
+  });
 
-  if (globalActive) {
-    const uri = vscode.Uri.parse(globalActive.uri);
-    try {
-      const doc = await vscode.workspace.openTextDocument(uri);
-      const editor = await vscode.window.showTextDocument(doc, {
-        viewColumn: globalActive.viewColumn,
-        preview: false,
-        preserveFocus: false
-      });
-      if (globalActive.cursor) {
-        const position = new vscode.Position(globalActive.cursor.line, globalActive.cursor.character);
-        editor.selection = new vscode.Selection(position, position);
-        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
-        recordCursorPosition(uri, position);
-      }
-    } catch (error) {
-      console.error(error);
+  let position = anchor ? ordered.indexOf(anchor) : -1;
+  if (position < 0) {
+    const lastInGroup = ordered.map(tabState => tabState.groupIndex).lastIndexOf(destination.groupIndex);
+    position = lastInGroup >= 0
+      ? lastInGroup + 1
+      : ordered.findIndex(tabState => tabState.groupIndex > destination.groupIndex);
+    if (position < 0) {
+      position = ordered.length;
     }
   }
 
-  vscode.window.showInformationMessage(`Restored session "${entry.name}".`);
+  const result = [...ordered];
+  result.splice(position, 0, ...moved);
+  return renumberSessionTabs(result);
 }
 
-async function pickSessionEntry(context: vscode.ExtensionContext, placeHolder: string): Promise<SessionFileRecord | undefined> {
-  const { entries } = await listSessions(context, { promptUser: false, showWarning: true });
+async function rewriteSessionTabs(filePath: string, update: (ordered: SavedTabState[]) => SavedTabState[]): Promise<SessionFileUpdate | undefined> {
+  return updateSessionFile(filePath, content => ({
+    ...content,
+    metadata: { ...content.metadata, updatedAt: new Date().toISOString() },
+    tabs: update([...content.tabs].sort(compareTabPosition))
+  }));
+}
 
-  if (entries.length === 0) {
-    vscode.window.showWarningMessage('No sessions found.');
+function createDroppedTab(uri: vscode.Uri): SavedTabState | undefined {
+  if (uri.scheme === 'untitled') {
+    return undefined;
+  }
+  if (uri.scheme === 'file' && (!fs.existsSync(uri.fsPath) || fs.statSync(uri.fsPath).isDirectory())) {
     return undefined;
   }
 
-  const selection = await vscode.window.showQuickPick(
-    entries.map(entry => ({
-      label: entry.name,
-      description: entry.fullPath,
-      entry
-    })),
-    { placeHolder }
-  );
+  const placement: SavedTabPlacement = {
+    label: path.basename(uri.path),
+    location: toWorkspaceLocation(uri.toString()),
+    groupIndex: 0,
+    tabIndex: 0,
+    isGroupActive: false,
+    isGlobalActive: false
+  };
+  const notebook = vscode.workspace.notebookDocuments.find(document => document.uri.toString() === uri.toString());
+  return notebook
+    ? { kind: 'notebook', uri: uri.toString(), notebookType: notebook.notebookType, ...placement }
+    : { kind: 'text', uri: uri.toString(), ...placement };
+}
 
-  return selection?.entry;
+// Files already in the destination group are skipped. Returns how many tabs were added.
+async function addFilesToSession(uris: vscode.Uri[], destination: SessionTabDestination): Promise<number> {
+  let added = 0;
+  await rewriteSessionTabs(destination.sessionPath, ordered => {
+    const existing = new Set(ordered
+      .filter(tabState => tabState.groupIndex === destination.groupIndex)
+      .flatMap(tabState => 'uri' in tabState ? [tabState.uri, resolveSavedUri(tabState.uri, tabState.location)] : []));
+    const inserted: SavedTabState[] = [];
+    for (const uri of uris) {
+      const tabState = createDroppedTab(uri);
+      if (tabState && !existing.has(uri.toString())) {
+        existing.add(uri.toString());
+        inserted.push(tabState);
+      }
+    }
+    added = inserted.length;
+    const anchor = ordered.find(tabState => tabState.groupIndex === destination.groupIndex && tabState.tabIndex === destination.beforeTabIndex);
+    return insertSessionTabs(ordered, inserted, destination, anchor);
+  });
+  return added;
 }
 
-async function entryFromArgument(context: vscode.ExtensionContext, arg?: SessionFileRecord | string): Promise<SessionFileRecord | undefined> {
-  if (!arg) {
-    return undefined;
+// Dropping onto a session appends to the end of a group; sessions with several groups ask which one, or start a new group.
+async function pickDropGroup(tabs: SavedTabState[]): Promise<number | undefined> {
+  const groups = [...new Set(tabs.map(tabState => tabState.groupIndex))].sort((a, b) => a - b);
+  if (groups.length <= 1) {
+    return groups[0] ?? 0;
   }
 
-  if (typeof arg !== 'string') {
-    if (fs.existsSync(arg.fullPath)) {
-      return arg;
-    }
-    vscode.window.showWarningMessage(`Session file not found: ${arg.fullPath}`);
-    return undefined;
+  const selection = await vscode.window.showQuickPick(
+    [
+      ...groups.map(groupIndex => ({
+        label: `End of Group ${groupIndex + 1}`,
+        description: `${tabs.filter(tabState => tabState.groupIndex === groupIndex).length} tab(s)`,
+        groupIndex
+      })),
+      { label: 'New Group', description: `Group ${groups[groups.length - 1] + 2}`, groupIndex: groups[groups.length - 1] + 1 }
+    ],
+    { placeHolder: 'Where should the dropped tabs go?' }
+  );
+  return selection?.groupIndex;
+}
+
+// Moves the stashed buffers of tabs taken out of `sourcePath` to `targetPath`, under ids that are still free there.
+// Returns the moved tabs with their `bufferId` rewritten to match.
+async function transferStashedBuffers(sourcePath: string, targetPath: string, moved: SavedTabState[]): Promise<SavedTabState[]> {
+  const movedIds = new Set(moved.flatMap(tabState => tabState.bufferId ? [tabState.bufferId] : []));
+  if (movedIds.size === 0) {
+    return moved;
   }
 
-  const normalized = arg.endsWith('.json') ? arg : `${arg}.json`;
-  if (fs.existsSync(normalized)) {
-    return { name: path.basename(normalized, '.json'), fullPath: normalized };
+  const source = await readBufferStash(sourcePath);
+  const target = await readBufferStash(targetPath);
+  const targetTabs = (await readSessionQuietly(targetPath))?.tabs ?? [];
+  const rekeyed = rekeyStashedBuffers(moved, source, usedBufferIds(targetTabs, target));
+  if (Object.keys(rekeyed.buffers).length > 0) {
+    await writeBufferStash(targetPath, { ...target, ...rekeyed.buffers });
   }
 
-  const folder = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
-  if (folder) {
-    const candidate = path.join(folder, normalized);
-    if (fs.existsSync(candidate)) {
-      return { name: path.basename(candidate, '.json'), fullPath: candidate };
-    }
+  // An untitled buffer can be open in several groups, so only drop buffers no remaining tab refers to.
+  const remainingIds = new Set(((await readSessionQuietly(sourcePath))?.tabs ?? [])
+    .flatMap(tabState => tabState.bufferId ? [tabState.bufferId] : []));
+  const released = Object.keys(source).filter(bufferId => movedIds.has(bufferId) && !remainingIds.has(bufferId));
+  if (released.length > 0) {
+    await writeBufferStash(sourcePath, Object.fromEntries(Object.entries(source).filter(([bufferId]) => !released.includes(bufferId))));
   }
 
-  vscode.window.showWarningMessage('Session file not found.');
-  return undefined;
+  return rekeyed.tabs;
 }
 
-//#endregion
+function isReferencedTab(tabState: SavedTabState, references: SessionTabReference[]): boolean {
+  return references.some(reference => reference.groupIndex === tabState.groupIndex && reference.tabIndex === tabState.tabIndex);
+}
 
+// Reorders tabs within a session, or moves them out of other sessions into the destination.
+async function moveSessionTabs(references: SessionTabReference[], destination: SessionTabDestination) {
+  const bySession = new Map<string, SessionTabReference[]>();
+  for (const reference of references) {
+    bySession.set(reference.sessionPath, [...(bySession.get(reference.sessionPath) ?? []), reference]);
+  }
 
-//#region Commands
+  const incoming: SavedTabState[] = [];
+  for (const [sessionPath, sessionReferences] of bySession) {
+    if (path.resolve(sessionPath) === path.resolve(destination.sessionPath)) {
+      continue;
+    }
 
-function registerSaveSessionCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.saveSession', async () => {
-    let sessionName = await vscode.window.showInputBox({
-      prompt: 'Enter a name for this session',
-      placeHolder: 'Leave empty to use a timestamped name'
+    const moved: SavedTabState[] = [];
+    await rewriteSessionTabs(sessionPath, ordered => {
+      moved.push(...ordered.filter(tabState => isReferencedTab(tabState, sessionReferences)));
+      return renumberSessionTabs(ordered.filter(tabState => !isReferencedTab(tabState, sessionReferences)));
     });
+    const transferred = await transferStashedBuffers(sessionPath, destination.sessionPath, moved);
+    incoming.push(...transferred.map(tabState => ({ ...tabState, isGroupActive: false, isGlobalActive: false })));
+  }
 
-    if (!sessionName) {
-      sessionName = `session-${new Date().toISOString().replace(/[:.]/g, '-')}`;
-    }
+  const ownReferences = [...bySession.entries()]
+    .filter(([sessionPath]) => path.resolve(sessionPath) === path.resolve(destination.sessionPath))
+    .flatMap(([, sessionReferences]) => sessionReferences);
+
+  await rewriteSessionTabs(destination.sessionPath, ordered => {
+    const reordered = ordered.filter(tabState => isReferencedTab(tabState, ownReferences));
+    const remaining = ordered.filter(tabState => !isReferencedTab(tabState, ownReferences));
+    // When the drop target is itself being dragged, insert before the next tab that stays.
+    const targetPosition = ordered.findIndex(tabState =>
+      tabState.groupIndex === destination.groupIndex && tabState.tabIndex === destination.beforeTabIndex);
+    const anchor = targetPosition < 0
+      ? undefined
+      : ordered.slice(targetPosition).find(tabState => tabState.groupIndex === destination.groupIndex && remaining.includes(tabState));
+    return insertSessionTabs(remaining, [...reordered, ...incoming], destination, anchor);
+  });
+}
 
-    const snapshot = createSessionSnapshot();
+async function removeSessionTab(reference: SessionTabReference): Promise<boolean> {
+  return !!await rewriteSessionTabs(reference.sessionPath, ordered =>
+    renumberSessionTabs(ordered.filter(tabState => !isReferencedTab(tabState, [reference]))));
+}
 
-    if (snapshot.tabs.length === 0) {
-      vscode.window.showInformationMessage('No supported tabs to save.');
-      return;
-    }
+//#endregion
 
-    const sessionFolder = await resolveSessionDirectory(context, { promptUser: true, showWarning: true, ensureExists: true });
-    if (!sessionFolder) {
-      return;
-    }
 
-    const filePath = path.join(sessionFolder, `${sessionName}.json`);
-    await fs.promises.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf8');
 
-    vscode.window.showInformationMessage(`Session "${sessionName}" saved with ${snapshot.tabs.length} tabs.`);
-    sessionTreeProvider?.refresh();
-  });
+//#region Session Composition
 
-  context.subscriptions.push(disposable);
+// Keys by the URI a tab reopens, so the same file saved from two clones is still recognized as a duplicate.
+function composedTabKey(tabState: SavedTabState): string | undefined {
+  if (!('uri' in tabState)) {
+    return undefined;
+  }
+  const uri = resolveSavedUri(tabState.uri, tabState.location) ?? tabState.uri;
+  return tabState.kind === 'diff'
+    ? savedTabKey({ ...tabState, uri, originalUri: resolveSavedUri(tabState.originalUri, tabState.originalLocation) ?? tabState.originalUri })
+    : savedTabKey({ ...tabState, uri });
 }
 
-function registerRestoreSessionCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.restoreSession', async () => {
-    const entry = await pickSessionEntry(context, 'Select a session to restore');
-    if (!entry) {
-      return;
-    }
+async function collectSessionIncludes(context: vscode.ExtensionContext, entry: SessionFileRecord, content: SessionFileContent): Promise<SessionComposition> {
+  if (!content.includes?.length) {
+    return { layers: [], missing: [], cycles: [] };
+  }
+
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  return resolveSessionIncludes(entries, entry, content, readSessionQuietly);
+}
+
+async function composeSessionTabs(
+  context: vscode.ExtensionContext,
+  entry: SessionFileRecord,
+  content: SessionFileContent
+): Promise<{ tabs: SavedTabState[]; stash: Record<string, StashedBuffer>; composition: SessionComposition }> {
+  const composition = await collectSessionIncludes(context, entry, content);
+  const ownStash = await readBufferStash(entry.fullPath);
+  if (composition.layers.length === 0) {
+    return { tabs: content.tabs, stash: ownStash, composition };
+  }
+
+  const layers = await Promise.all(composition.layers.map(async layer => ({
+    tabs: layer.content.tabs,
+    stash: await readBufferStash(layer.entry.fullPath)
+  })));
+  const { tabs, stash } = layerSessionTabs({ tabs: content.tabs, stash: ownStash }, layers, composedTabKey);
+  return { tabs, stash, composition };
+}
+
+function reportIncludeProblems(sessionName: string, composition: SessionComposition) {
+  const problems = [
+    ...composition.missing.map(name => `included session "${name}" was not found`),
+    ...composition.cycles.map(cycle => `skipped the include cycle ${cycle}`)
+  ];
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(`Session "${sessionName}": ${problems.join('; ')}.`);
+  }
+}
 
-    await restoreSessionFromEntry(entry);
+// Adds the open tabs that are not yet part of the session after its existing tabs, keeping their groups.
+async function appendTabsToSession(filePath: string, snapshot: SessionFileContent): Promise<number> {
+  const targetStash = await readBufferStash(filePath);
+  const snapshotStash = collectBufferStash(snapshot).buffers;
+  let appended: SavedTabState[] = [];
+  let buffers: Record<string, StashedBuffer> = {};
+  const updated = await rewriteSessionTabs(filePath, ordered => {
+    const keys = new Set(ordered.map(composedTabKey).filter((key): key is string => !!key));
+    const added = [...snapshot.tabs].sort(compareTabPosition)
+      .filter(tabState => {
+        const key = composedTabKey(tabState);
+        return !key || !keys.has(key);
+      })
+      .map(tabState => ({ ...tabState, isGroupActive: false, isGlobalActive: false }));
+    // The snapshot numbers its buffers from `buffer-1` too, so they are re-keyed around the ones already stashed.
+    ({ tabs: appended, buffers } = rekeyStashedBuffers(added, snapshotStash, usedBufferIds(ordered, targetStash)));
+    return renumberSessionTabs([...ordered, ...appended]);
   });
+  if (!updated || appended.length === 0) {
+    return 0;
+  }
 
-  context.subscriptions.push(disposable);
+  if (Object.keys(buffers).length > 0) {
+    const merged: BufferStashContent = { version: BUFFER_STASH_VERSION, buffers: { ...targetStash, ...buffers } };
+    await writeStoredFile(bufferStashPath(filePath), JSON.stringify(merged));
+  }
+  return appended.length;
 }
 
-function registerRestoreNamedSessionCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.restoreNamedSession', async (arg?: SessionFileRecord | string) => {
-    let entry = await entryFromArgument(context, arg);
-    if (!entry) {
-      entry = await pickSessionEntry(context, 'Select a session to restore');
-    }
-    if (!entry) {
-      return;
+// Keeps includes pointing at a session after it is renamed or moved to another folder.
+async function retargetSessionIncludes(context: vscode.ExtensionContext, previous: SessionFileRecord, targetPath: string) {
+  const previousName = qualifiedSessionName(previous);
+  const nextName = path.relative(sessionRootOf(previous), targetPath).replace(/\.json$/, '').split(path.sep).join('/');
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  for (const entry of entries.filter(candidate => candidate.workspaceFolder === previous.workspaceFolder)) {
+    const content = await readSessionQuietly(entry.fullPath);
+    if (content?.includes?.some(name => normalizeIncludeName(name) === previousName)) {
+      await updateSessionIncludes(entry.fullPath, content.includes.map(name => normalizeIncludeName(name) === previousName ? nextName : name));
     }
+  }
+}
 
-    const hasOpenFiles = vscode.workspace.textDocuments.some(doc => !doc.isUntitled && !doc.isClosed);
-    if (hasOpenFiles) {
-      const behavior = getAutoSaveBehavior();
-      let finalChoice: string | undefined;
+async function updateSessionIncludes(filePath: string, includes: string[]): Promise<boolean> {
+  return !!await updateSessionFile(filePath, content => ({
+    ...content,
+    metadata: { ...content.metadata, updatedAt: new Date().toISOString() },
+    includes: includes.length > 0 ? includes : undefined
+  }));
+}
 
-      if (behavior === 'yes') {
-        finalChoice = 'Yes — Save and Continue';
-      } else if (behavior === 'no') {
-        finalChoice = 'No — Just Switch';
-      } else {
-        finalChoice = await vscode.window.showQuickPick(
-          ['Yes — Save and Continue', 'No — Just Switch', 'Cancel'],
-          { placeHolder: 'Save current open files as a session before switching?' }
-        );
-      }
+//#endregion
 
-      if (finalChoice === 'Cancel' || !finalChoice) {
-        return;
-      }
 
-      if (finalChoice === 'Yes — Save and Continue') {
-        const unsavedDocs = vscode.workspace.textDocuments.filter(doc => doc.isDirty && !doc.isUntitled);
-        if (unsavedDocs.length > 0) {
-          const saveConfirm = await vscode.window.showQuickPick(
-            ['💾 Save and Continue', '⚠️ Continue Without Saving', 'Cancel'],
-            { placeHolder: `You have ${unsavedDocs.length} unsaved file(s). What do you want to do?` }
-          );
+//#region Restore Recovery
 
-          if (saveConfirm === '💾 Save and Continue') {
-            await vscode.workspace.saveAll();
-          } else if (saveConfirm === 'Cancel') {
-            return;
-          }
-        }
+function isMissingFile(tabState: SavedTabState): boolean {
+  if (tabState.kind === 'untitled' || !('uri' in tabState)) {
+    return false;
+  }
+  const uri = vscode.Uri.parse(tabState.uri);
+  return uri.scheme === 'file' && !fs.existsSync(uri.fsPath);
+}
 
-        const snapshot = createSessionSnapshot();
-        if (snapshot.tabs.length === 0) {
-          vscode.window.showInformationMessage('No supported tabs to save.');
-          return;
-        }
+// The sidebar flags missing files on every render, so it remembers what it found until files are created,
+// deleted or renamed, or another branch is checked out.
+function isMissingFileCached(tabState: SavedTabState): boolean {
+  const key = 'uri' in tabState ? tabState.uri : undefined;
+  if (!key) {
+    return false;
+  }
+  let missing = knownMissingFiles.get(key);
+  if (missing === undefined) {
+    missing = isMissingFile(tabState);
+    knownMissingFiles.set(key, missing);
+  }
+  return missing;
+}
 
-        let sessionName = await vscode.window.showInputBox({
-          prompt: 'Enter a name to save your current session',
-          placeHolder: 'Leave empty to use a timestamped name'
-        });
+// Tabs that failed to open may come from an included session, so each one is traced back to the file that lists it.
+function groupTabsByOwner(entry: SessionFileRecord, content: SessionFileContent, composition: SessionComposition, tabs: SavedTabState[]): Map<string, Set<string>> {
+  return findTabOwners(entry, content, composition, tabs, composedTabKey);
+}
 
-        if (!sessionName) {
-          sessionName = `session-${new Date().toISOString().replace(/[:.]/g, '-')}`;
-        }
+function logFailedTabs(sessionName: string, failed: SavedTabState[]) {
+  const channel = getOutputChannel();
+  channel.appendLine(`[${new Date().toLocaleString()}] Session "${sessionName}": ${failed.length} tab(s) could not be opened:`);
+  for (const tabState of failed) {
+    channel.appendLine(`  - ${describeSavedLocation(tabState)}${isMissingFile(tabState) ? ' (file not found)' : ''}`);
+  }
+}
 
-        const sessionFolder = await resolveSessionDirectory(context, { promptUser: true, showWarning: true, ensureExists: true });
-        if (!sessionFolder) {
-          return;
-        }
+// One summary for every tab that failed to open, with ways to repair the session instead of a warning per file.
+async function reportFailedTabs(
+  context: vscode.ExtensionContext,
+  entry: SessionFileRecord,
+  content: SessionFileContent,
+  composition: SessionComposition,
+  failed: SavedTabState[],
+  notes = ''
+) {
+  if (failed.length === 0) {
+    return;
+  }
 
-        const savePath = path.join(sessionFolder, `${sessionName}.json`);
-        await fs.promises.writeFile(savePath, JSON.stringify(snapshot, null, 2), 'utf8');
-        vscode.window.showInformationMessage(`Session "${sessionName}" saved with ${snapshot.tabs.length} tabs.`);
-        sessionTreeProvider?.refresh();
-      } else if (finalChoice === 'Cancel' || !finalChoice) {
-        return;
-      }
-    }
+  logFailedTabs(entry.name, failed);
 
-    await restoreSessionFromEntry(entry);
-  });
+  const missing = failed.filter(isMissingFile);
+  const missingNote = missing.length > 0 ? ` ${missing.length} of them no longer exist at their saved path.` : '';
+  const choice = await vscode.window.showWarningMessage(
+    `${failed.length} tab(s) in session "${entry.name}" could not be opened.${missingNote}${notes}`,
+    ...(missing.length > 0 ? ['Find Moved Files'] : []),
+    'Remove from Session',
+    'Show Report'
+  );
 
-  context.subscriptions.push(disposable);
+  if (choice === 'Show Report') {
+    getOutputChannel().show();
+  } else if (choice === 'Find Moved Files') {
+    await relocateMissingTabs(entry, content, composition, missing);
+  } else if (choice === 'Remove from Session') {
+    await pruneFailedTabs(entry, content, composition, failed);
+  }
 }
 
-function registerDeleteSessionCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.deleteSession', async (arg?: SessionFileRecord | string) => {
-    let entry = await entryFromArgument(context, arg);
-    if (!entry) {
-      entry = await pickSessionEntry(context, 'Select a session to delete');
-    }
-    if (!entry) {
-      return;
-    }
-
-    const confirm = await vscode.window.showWarningMessage(
-      `Delete session "${entry.name}"?`,
-      { modal: true },
-      'Delete'
-    );
-
-    if (confirm !== 'Delete') {
-      return;
-    }
+async function pruneFailedTabs(entry: SessionFileRecord, content: SessionFileContent, composition: SessionComposition, failed: SavedTabState[]) {
+  const confirm = await vscode.window.showWarningMessage(
+    `Remove ${failed.length} tab(s) that could not be opened from session "${entry.name}"?`,
+    { modal: true },
+    'Remove'
+  );
+  if (confirm !== 'Remove') {
+    return;
+  }
 
-    if (fs.existsSync(entry.fullPath)) {
-      await fs.promises.unlink(entry.fullPath);
-    }
+  // Undo restores the versions this rewrite archived; a session that did not change has none to go back to.
+  const archived: Array<SessionHistoryVersion | undefined> = [];
+  for (const [ownerPath, keys] of groupTabsByOwner(entry, content, composition, failed)) {
+    const update = await rewriteSessionTabs(ownerPath, ordered => renumberSessionTabs(ordered.filter(tabState => !keys.has(composedTabKey(tabState) ?? ''))));
+    archived.push(update?.archived);
+  }
 
-    vscode.window.showInformationMessage(`Deleted session "${entry.name}".`);
-    sessionTreeProvider?.refresh();
-  });
+  void offerUndo(`Removed ${failed.length} tab(s) from session "${entry.name}".`, archived);
+}
 
-  context.subscriptions.push(disposable);
+function escapeGlobPattern(value: string): string {
+  return value.replace(/[[\]{}*?!]/g, character => `[${character}]`);
 }
 
-function registerOverwriteSessionCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.overwriteSession', async (arg?: SessionFileRecord | string) => {
-    let entry = await entryFromArgument(context, arg);
-    if (!entry) {
-      entry = await pickSessionEntry(context, 'Select a session to overwrite');
-    }
-    if (!entry) {
-      return;
+// Offers the workspace files that share the missing file's name, or any file picked from disk.
+async function pickRelocatedFile(tabState: SavedTabState): Promise<vscode.Uri | null | undefined> {
+  const fileName = path.basename(vscode.Uri.parse(getSavedTabUri(tabState) ?? '').fsPath);
+  const matches = await vscode.workspace.findFiles(`**/${escapeGlobPattern(fileName)}`, undefined, 50);
+  const selection = await vscode.window.showQuickPick(
+    [
+      ...matches.map(uri => ({ label: `$(file) ${vscode.workspace.asRelativePath(uri)}`, uri, browse: false })),
+      { label: '$(folder-opened) Browse…', uri: undefined, browse: true },
+      { label: '$(debug-step-over) Skip this file', uri: undefined, browse: false }
+    ],
+    {
+      placeHolder: matches.length > 0
+        ? `Where is "${describeSavedLocation(tabState)}" now?`
+        : `No file named "${fileName}" was found in the workspace. Browse for "${describeSavedLocation(tabState)}"?`,
+      ignoreFocusOut: true
     }
+  );
 
-    const confirm = await vscode.window.showWarningMessage(
-      `Overwrite session "${entry.name}" with currently open files?`,
-      { modal: true },
-      'Overwrite'
-    );
+  if (!selection) {
+    return undefined;
+  }
+  if (!selection.browse) {
+    return selection.uri ?? null;
+  }
 
-    if (confirm !== 'Overwrite') {
-      return;
-    }
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Relocate',
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+  });
+  return picked?.[0] ?? null;
+}
 
-    const unsavedDocs = vscode.workspace.textDocuments.filter(doc => doc.isDirty && !doc.isUntitled);
-    if (unsavedDocs.length > 0) {
-      const saveConfirm = await vscode.window.showQuickPick(
-        ['💾 Save and Continue', '⚠️ Continue Without Saving', 'Cancel'],
-        { placeHolder: `You have ${unsavedDocs.length} unsaved file(s). What do you want to do?` }
-      );
+function relocateTab(tabState: SavedTabState, uri: vscode.Uri): SavedTabState {
+  if (!('uri' in tabState) || tabState.kind === 'diff' || tabState.kind === 'untitled') {
+    return tabState;
+  }
+  const target = uri.toString();
+  return {
+    ...tabState,
+    uri: target,
+    location: toWorkspaceLocation(target),
+    label: tabState.kind === 'text' ? path.basename(uri.fsPath) : tabState.label
+  };
+}
 
-      if (saveConfirm === '💾 Save and Continue') {
-        await vscode.workspace.saveAll();
-      } else if (saveConfirm === 'Cancel') {
-        return;
-      }
+// Rewrites the relocated entries in the session (or the included session that lists them) and opens them.
+async function relocateMissingTabs(entry: SessionFileRecord, content: SessionFileContent, composition: SessionComposition, missing: SavedTabState[]) {
+  const relocations = new Map<string, vscode.Uri>();
+  const relocatable = missing.filter(tabState => tabState.kind !== 'diff');
+  for (const tabState of relocatable) {
+    const uri = await pickRelocatedFile(tabState);
+    if (uri === undefined) {
+      break;
     }
-
-    const snapshot = createSessionSnapshot();
-    if (snapshot.tabs.length === 0) {
-      vscode.window.showInformationMessage('No supported tabs to save.');
-      return;
+    const key = composedTabKey(tabState);
+    if (uri && key) {
+      relocations.set(key, uri);
     }
+  }
 
-    await ensureDirectory(path.dirname(entry.fullPath));
-    await fs.promises.writeFile(entry.fullPath, JSON.stringify(snapshot, null, 2), 'utf8');
+  if (relocations.size === 0) {
+    return;
+  }
 
-    vscode.window.showInformationMessage(`Session "${entry.name}" overwritten with ${snapshot.tabs.length} tabs.`);
-    sessionTreeProvider?.refresh();
-  });
+  for (const [ownerPath, keys] of groupTabsByOwner(entry, content, composition, relocatable)) {
+    await rewriteSessionTabs(ownerPath, ordered => ordered.map(tabState => {
+      const key = composedTabKey(tabState);
+      const uri = key && keys.has(key) ? relocations.get(key) : undefined;
+      return uri ? relocateTab(tabState, uri) : tabState;
+    }));
+  }
 
-  context.subscriptions.push(disposable);
+  for (const tabState of relocatable) {
+    const uri = relocations.get(composedTabKey(tabState) ?? '');
+    if (uri) {
+      try {
+        await openSavedTab(relocateTab(tabState, uri), true);
+      } catch (error) {
+        logError(error);
+      }
+    }
+  }
+
+  vscode.window.showInformationMessage(`Relocated ${relocations.size} file(s) in session "${entry.name}".`);
 }
 
-function registerChangeLocationCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.changeFileLocation', async () => {
-    const location = getFileLocationSetting();
-    const options: Array<{ label: string; value: SessionLocationSetting; description: string }> = [
-      { label: 'Workspace', value: 'workspace', description: 'Store sessions inside a workspace folder' },
-      { label: 'Global Storage', value: 'global', description: 'Store sessions inside VS Code global storage' },
-      { label: 'Custom Folder…', value: 'custom', description: 'Choose any folder on disk' }
-    ];
+//#endregion
 
-    const selection = await vscode.window.showQuickPick(
-      options.map(opt => ({
-        label: opt.label,
-        description: opt.description,
-        picked: opt.value === location,
-        value: opt.value
-      })),
-      { placeHolder: 'Choose where Session Saver stores its files' }
-    );
 
-    if (!selection) {
-      return;
-    }
+//#region File Watchers
 
-    if (selection.value === 'workspace') {
-      const folder = await resolveWorkspaceBase(true, true);
-      if (!folder) {
-        return;
-      }
-      await updateConfigValue('fileLocation', 'workspace');
-      vscode.window.showInformationMessage(`Session storage set to workspace folder: ${folder}`);
-    } else if (selection.value === 'global') {
-      await updateConfigValue('fileLocation', 'global');
-      vscode.window.showInformationMessage('Session storage set to global storage.');
-    } else {
-      const folder = await resolveCustomBase(true, true);
-      if (!folder) {
-        return;
-      }
-      await updateConfigValue('fileLocation', 'custom');
-      vscode.window.showInformationMessage(`Session storage set to custom folder: ${folder}`);
-    }
+// Returns the updated tab, or undefined when none of the renamed files (or folders) affect it.
+function applyRenamesToTab(tabState: SavedTabState, renames: Array<{ from: string; to: string }>): SavedTabState | undefined {
+  if (!('uri' in tabState) || tabState.kind === 'untitled') {
+    return undefined;
+  }
 
-    sessionTreeProvider?.refresh();
-  });
+  const renamed = renameSavedUri(resolveSavedUri(tabState.uri, tabState.location) ?? tabState.uri, renames);
+  if (tabState.kind === 'diff') {
+    const originalRenamed = renameSavedUri(resolveSavedUri(tabState.originalUri, tabState.originalLocation) ?? tabState.originalUri, renames);
+    if (!renamed && !originalRenamed) {
+      return undefined;
+    }
+    return {
+      ...tabState,
+      uri: renamed ?? tabState.uri,
+      originalUri: originalRenamed ?? tabState.originalUri,
+      location: renamed ? toWorkspaceLocation(renamed) : tabState.location,
+      originalLocation: originalRenamed ? toWorkspaceLocation(originalRenamed) : tabState.originalLocation
+    };
+  }
 
-  context.subscriptions.push(disposable);
+  return renamed ? relocateTab(tabState, vscode.Uri.parse(renamed)) : undefined;
 }
 
-function registerDeleteAllSessionsCommand(context: vscode.ExtensionContext) {
-  const disposable = vscode.commands.registerCommand('session-saver.deleteAllSessions', async () => {
-    const folder = await resolveSessionDirectory(context, { promptUser: false, showWarning: true });
-    if (!folder || !fs.existsSync(folder)) {
-      vscode.window.showInformationMessage('No session folder found.');
-      return;
+// Rewrites every session and autosave that refers to a renamed file, so sessions follow Explorer renames and refactorings.
+async function updateSessionsForRenames(context: vscode.ExtensionContext, event: vscode.FileRenameEvent) {
+  const renames = event.files.map(file => ({ from: file.oldUri.toString(), to: file.newUri.toString() }));
+  const { entries } = await listSessions(context, { promptUser: false, showWarning: false });
+  let updatedSessions = 0;
+
+  for (const entry of entries) {
+    const content = await readSessionQuietly(entry.fullPath);
+    if (!content?.tabs.some(tabState => applyRenamesToTab(tabState, renames))) {
+      continue;
     }
+    await updateSessionFile(entry.fullPath, current => ({
+      ...current,
+      tabs: current.tabs.map(tabState => applyRenamesToTab(tabState, renames) ?? tabState)
+    }));
+    updatedSessions++;
+  }
 
-    const files = (await fs.promises.readdir(folder)).filter(file => file.endsWith('.json'));
-    if (files.length === 0) {
-      vscode.window.showInformationMessage('No sessions to delete.');
-      return;
+  // Autosaves are snapshots without a history, so they are rewritten in place.
+  for (const entry of await listAutosaves(context)) {
+    const content = await readSessionQuietly(entry.fullPath);
+    if (!content?.tabs.some(tabState => applyRenamesToTab(tabState, renames))) {
+      continue;
     }
+    const tabs = content.tabs.map(tabState => applyRenamesToTab(tabState, renames) ?? tabState);
+    await writeStoredFile(entry.fullPath, JSON.stringify({ ...content, tabs }, null, 2));
+    updatedSessions++;
+  }
 
-    const confirm = await vscode.window.showWarningMessage(
-      `Delete all ${files.length} session(s) in ${folder}?`,
-      { modal: true },
-      'Delete All'
-    );
+  if (updatedSessions > 0) {
+    getOutputChannel().appendLine(`[${new Date().toLocaleString()}] Updated ${updatedSessions} session(s) after renaming ${renames.length} file(s).`);
+  }
+}
 
-    if (confirm !== 'Delete All') {
-      return;
-    }
+// Watches the session folders on disk, so sessions edited or synced by other tools show up without a manual refresh.
+// Memento-backed locations have nothing on disk to watch.
+async function watchSessionFolders(context: vscode.ExtensionContext): Promise<vscode.Disposable[]> {
+  const folder = await resolveSessionDirectory(context, { promptUser: false, showWarning: false });
+  if (!folder || storageFor(folder) !== sessionStorage.fileSystem) {
+    return [];
+  }
 
-    await Promise.all(files.map(file => fs.promises.unlink(path.join(folder, file))));
-    vscode.window.showInformationMessage(`Deleted ${files.length} session(s).`);
-    sessionTreeProvider?.refresh();
+  // Only session files count: history and other bookkeeping live in dot-folders, buffer stashes use their own extension.
+  return getSessionDirectories(folder).map(directory => {
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(directory.sessionFolder), '**/*.json'));
+    const onSessionFileChange = (uri: vscode.Uri) => {
+      const inDotFolder = path.relative(directory.sessionFolder, uri.fsPath).split(path.sep).some(segment => segment.startsWith('.'));
+      if (!inDotFolder && !isStorageEcho(path.resolve(uri.fsPath))) {
+        notifySessionsChanged();
+      }
+    };
+    watcher.onDidCreate(onSessionFileChange);
+    watcher.onDidChange(onSessionFileChange);
+    watcher.onDidDelete(onSessionFileChange);
+    return watcher;
   });
+}
 
-  context.subscriptions.push(disposable);
+function initializeFileWatchers(context: vscode.ExtensionContext) {
+  let folderWatchers: vscode.Disposable[] = [];
+  const rewatch = async () => {
+    folderWatchers.forEach(watcher => watcher.dispose());
+    folderWatchers = await watchSessionFolders(context);
+  };
+
+  context.subscriptions.push(
+    // Our own writes are reported the same way, so the sidebar only needs to listen in one place.
+    sessionsChangedEmitter.event(() => sessionTreeProvider?.refresh()),
+    vscode.workspace.onDidRenameFiles(event => {
+      knownMissingFiles.clear();
+      if (isFollowFileRenamesEnabled()) {
+        void updateSessionsForRenames(context, event).catch(err => logError(err));
+      } else {
+        sessionTreeProvider?.refresh();
+      }
+    }),
+    // Deleted files are kept in their sessions and flagged in the sidebar, since they may come back (e.g. on a branch switch).
+    vscode.workspace.onDidDeleteFiles(() => {
+      knownMissingFiles.clear();
+      sessionTreeProvider?.refresh();
+    }),
+    vscode.workspace.onDidCreateFiles(() => {
+      knownMissingFiles.clear();
+      sessionTreeProvider?.refresh();
+    }),
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (['fileLocation', 'workspaceFolder', 'customFolder'].some(key => event.affectsConfiguration(`sessionSaver.${key}`))) {
+        void rewatch();
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => void rewatch()),
+    { dispose: () => folderWatchers.forEach(watcher => watcher.dispose()) }
+  );
+
+  void rewatch();
 }
 
 //#endregion
 
 
-
 //#region Sidebar View
 
 function registerSidebarTreeView(context: vscode.ExtensionContext) {
   sessionTreeProvider = new SessionProvider(context);
   // view id updated to match package.json change
-  vscode.window.registerTreeDataProvider('sessionSaverView', sessionTreeProvider);
+  const treeView = vscode.window.createTreeView('sessionSaverView', {
+    treeDataProvider: sessionTreeProvider,
+    dragAndDropController: sessionTreeProvider,
+    canSelectMany: true
+  });
+  context.subscriptions.push(
+    treeView,
+    vscode.window.tabGroups.onDidChangeTabs(() => sessionTreeProvider?.handleActiveTabChange()),
+    vscode.window.tabGroups.onDidChangeTabGroups(() => sessionTreeProvider?.handleActiveTabChange())
+  );
 }
 
-type SessionItemKind = 'session' | 'restore' | 'delete' | 'filesRoot' | 'fileEntry' | 'info' | 'command';
+// Tree drag-and-drop MIME types are derived from the lower-cased view id.
+const SESSION_TAB_MIME_TYPE = 'application/vnd.code.tree.sessionsaverview';
+
+type SessionItemKind = 'session' | 'includedSession' | 'sessionFolder' | 'historyRoot' | 'historySession' | 'historyVersion' | 'workspaceGroup' | 'autosaveRoot' | 'autosave' | 'restore' | 'delete' | 'filesRoot' | 'fileEntry' | 'placeholder' | 'info' | 'command';
 
 class SessionItem extends vscode.TreeItem {
+  workspaceFolder?: string;
+  folder?: SessionFolderRecord;
+  tabPosition?: { groupIndex: number; tabIndex: number };
+  matches?: SavedTabState[];
+  version?: SessionHistoryVersion;
+  includedBy?: SessionFileRecord;
+  includeName?: string;
+  includeChain?: string[];
+
   constructor(
     label: string,
     collapsibleState: vscode.TreeItemCollapsibleState,
@@ -841,21 +5045,264 @@ class SessionItem extends vscode.TreeItem {
   }
 }
 
-class SessionProvider implements vscode.TreeDataProvider<SessionItem> {
+class SessionProvider implements vscode.TreeDataProvider<SessionItem>, vscode.TreeDragAndDropController<SessionItem> {
+  readonly dragMimeTypes = [SESSION_TAB_MIME_TYPE, 'text/uri-list'];
+  readonly dropMimeTypes = [SESSION_TAB_MIME_TYPE, 'text/uri-list'];
+
   private _onDidChangeTreeData: vscode.EventEmitter<SessionItem | undefined | void> = new vscode.EventEmitter<SessionItem | undefined | void>();
   readonly onDidChangeTreeData: vscode.Event<SessionItem | undefined | void> = this._onDidChangeTreeData.event;
 
+  private filter = '';
+  private activeTabUri = getActiveTabUri();
+
   constructor(private context: vscode.ExtensionContext) {}
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
+  getFilter(): string {
+    return this.filter;
+  }
+
+  async setFilter(query: string) {
+    this.filter = query;
+    await vscode.commands.executeCommand('setContext', 'sessionSaver.filterActive', !!query);
+    this.refresh();
+  }
+
+  // Sessions containing the active file are marked, so only refresh when that file changes.
+  handleActiveTabChange() {
+    const uri = getActiveTabUri();
+    if (uri !== this.activeTabUri) {
+      this.activeTabUri = uri;
+      this.refresh();
+    }
+  }
+
   getTreeItem(element: SessionItem): vscode.TreeItem {
     return element;
   }
 
+  // Only files of named sessions can be dragged; autosaves are read-only.
+  handleDrag(source: readonly SessionItem[], dataTransfer: vscode.DataTransfer): void {
+    const dragged = source.filter(item => item.contextValue === 'sessionFile');
+    const references: SessionTabReference[] = dragged.flatMap(item =>
+      item.entry && item.tabPosition ? [{ sessionPath: item.entry.fullPath, ...item.tabPosition }] : []);
+    if (references.length === 0) {
+      return;
+    }
+
+    dataTransfer.set(SESSION_TAB_MIME_TYPE, new vscode.DataTransferItem(references));
+
+    // Untitled buffers have no command to open them and nothing on disk to hand to other views.
+    const uris = dragged.flatMap(item => item.command && item.fileEntryPath ? [vscode.Uri.file(item.fileEntryPath).toString()] : []);
+    if (uris.length > 0) {
+      dataTransfer.set('text/uri-list', new vscode.DataTransferItem(uris.join('\r\n')));
+    }
+  }
+
+  async handleDrop(target: SessionItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const destination = await this.resolveDropDestination(target);
+    if (!destination) {
+      return;
+    }
+
+    try {
+      const internal = dataTransfer.get(SESSION_TAB_MIME_TYPE);
+      if (internal) {
+        await moveSessionTabs(internal.value as SessionTabReference[], destination);
+      } else {
+        const uriList = await dataTransfer.get('text/uri-list')?.asString();
+        const uris = (uriList ?? '')
+          .split(/\r?\n/)
+          .map(line => line.trim())
+          .filter(line => line && !line.startsWith('#'))
+          .map(line => vscode.Uri.parse(line));
+        if (uris.length === 0) {
+          return;
+        }
+        const added = await addFilesToSession(uris, destination);
+        if (added === 0) {
+          vscode.window.showInformationMessage('The dropped files are already part of this session.');
+        }
+      }
+    } catch (err) {
+      vscode.window.showErrorMessage(`Failed to update session: ${(err as Error).message}`);
+    }
+
+    this.refresh();
+  }
+
+  // Dropping on a file inserts before it; dropping on a session or its file list appends to the first group.
+  private async resolveDropDestination(target: SessionItem | undefined): Promise<SessionTabDestination | undefined> {
+    if (!target?.entry || isReadOnlyEntry(this.context, target.entry)) {
+      return undefined;
+    }
+
+    if (target.contextValue === 'sessionFile' && target.tabPosition) {
+      return { sessionPath: target.entry.fullPath, groupIndex: target.tabPosition.groupIndex, beforeTabIndex: target.tabPosition.tabIndex };
+    }
+
+    if (target.kind === 'session' || target.kind === 'filesRoot') {
+      const sessionData = await readSessionFile(target.entry.fullPath);
+      const groupIndex = await pickDropGroup(sessionData?.tabs ?? []);
+      return groupIndex === undefined ? undefined : { sessionPath: target.entry.fullPath, groupIndex };
+    }
+
+    return undefined;
+  }
+
+  // Session tooltips need the file's metadata, so they are only loaded when hovered.
+  async resolveTreeItem(item: vscode.TreeItem, element: SessionItem): Promise<vscode.TreeItem> {
+    if (element.kind !== 'session' || !element.entry) {
+      return item;
+    }
+
+    const metadata = withRestoreCount(this.context, element.entry.fullPath, await readSessionMetadata(element.entry.fullPath));
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown('**');
+    tooltip.appendText(element.entry.name);
+    tooltip.appendMarkdown('**\n\n');
+    if (metadata?.description) {
+      tooltip.appendText(metadata.description);
+      tooltip.appendMarkdown('\n\n');
+    }
+    for (const line of describeMetadata(metadata)) {
+      tooltip.appendText(line);
+      tooltip.appendMarkdown('  \n');
+    }
+    tooltip.appendText(element.entry.fullPath);
+    item.tooltip = tooltip;
+    return item;
+  }
+
+  private async createSessionItem(entry: SessionFileRecord, label = entry.name): Promise<SessionItem> {
+    const content = await readSidebarSession(entry.fullPath);
+    const metadata = content?.metadata;
+    const boundToCurrent = isBoundToCurrentBranch(metadata);
+    const activeTabUri = this.activeTabUri;
+    const containsActive = !!activeTabUri && !!content?.tabs.some(tabState => savedTabMatchesUri(tabState, activeTabUri));
+    const sessionItem = new SessionItem(
+      boundToCurrent ? `🌿 ${label}` : label,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'session',
+      entry
+    );
+    sessionItem.description = metadata?.boundBranch
+      ? `${metadata.boundBranch}${boundToCurrent ? ' (current branch)' : ''}`
+      : path.dirname(entry.fullPath);
+    if (containsActive) {
+      sessionItem.description = `📍 active file · ${sessionItem.description}`;
+    }
+    sessionItem.contextValue = 'session';
+    return sessionItem;
+  }
+
+  private async createFilteredItems(): Promise<SessionItem[]> {
+    const results = await searchSessions(this.context, this.filter);
+    const filterItem = new SessionItem(
+      `🔍 Filter: ${this.filter}`,
+      vscode.TreeItemCollapsibleState.None,
+      'command',
+      undefined,
+      undefined,
+      { command: 'session-saver.filterSessions', title: 'Filter Sessions' }
+    );
+    filterItem.description = `${results.length} match(es)`;
+    filterItem.tooltip = 'Click to change the filter';
+
+    const clearItem = new SessionItem(
+      '✖️ Clear Filter',
+      vscode.TreeItemCollapsibleState.None,
+      'command',
+      undefined,
+      undefined,
+      { command: 'session-saver.clearSessionFilter', title: 'Clear Filter' }
+    );
+
+    const sessionItems = await Promise.all(results.map(async result => {
+      const sessionItem = await this.createSessionItem(result.entry, qualifiedSessionName(result.entry));
+      sessionItem.matches = result.matchedTabs;
+      if (result.matchedTabs.length > 0) {
+        sessionItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+      }
+      return sessionItem;
+    }));
+
+    return [filterItem, clearItem, ...sessionItems];
+  }
+
+  // Included sessions expand to their own files and includes. One that is already part of `chain` is a cycle and stays collapsed.
+  private async createIncludeItems(owner: SessionFileRecord, chain: string[]): Promise<SessionItem[]> {
+    const content = await readSidebarSession(owner.fullPath);
+    if (!content?.includes?.length) {
+      return [];
+    }
+
+    const { entries } = await listSessions(this.context, { promptUser: false, showWarning: false });
+    const removable = chain.length === 1 && !isReadOnlyEntry(this.context, owner);
+    return content.includes.map(name => {
+      const included = resolveIncludedEntry(entries, owner, name);
+      const includedKey = included ? path.resolve(included.fullPath) : undefined;
+      const cyclic = !!includedKey && chain.includes(includedKey);
+      const includeItem = new SessionItem(
+        `🧩 ${name}`,
+        included && !cyclic ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        'includedSession',
+        included
+      );
+      includeItem.includedBy = owner;
+      includeItem.includeName = name;
+      includeItem.includeChain = includedKey ? [...chain, includedKey] : chain;
+      includeItem.description = !included ? 'not found' : cyclic ? 'include cycle · skipped on restore' : 'included';
+      includeItem.tooltip = included
+        ? `Tabs of "${name}" are opened along with "${owner.name}".`
+        : `No session named "${name}" exists, so it is skipped on restore.`;
+      includeItem.contextValue = removable ? 'includedSession' : undefined;
+      return includeItem;
+    });
+  }
+
+  private createFolderItem(folder: SessionFolderRecord, results: { entries: SessionFileRecord[] }): SessionItem {
+    const folderItem = new SessionItem(
+      `📁 ${path.posix.basename(folder.relativePath)}`,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'sessionFolder'
+    );
+    const sessionCount = results.entries.filter(entry =>
+      entry.workspaceFolder === folder.workspaceFolder
+      && !!entry.relativeFolder
+      && (entry.relativeFolder === folder.relativePath || entry.relativeFolder.startsWith(`${folder.relativePath}/`))
+    ).length;
+    folderItem.folder = folder;
+    folderItem.workspaceFolder = folder.workspaceFolder;
+    folderItem.description = `${sessionCount} session(s)`;
+    folderItem.tooltip = resolveFolderPath(folder);
+    folderItem.contextValue = 'sessionFolder';
+    return folderItem;
+  }
+
+  // Folders come first at every level, followed by the sessions stored directly in it.
+  private async createLevelItems(
+    results: { entries: SessionFileRecord[]; folders: SessionFolderRecord[] },
+    workspaceFolder: string | undefined,
+    relativeFolder: string
+  ): Promise<SessionItem[]> {
+    const folderItems = results.folders
+      .filter(folder => folder.workspaceFolder === workspaceFolder && parentFolderPath(folder.relativePath) === relativeFolder)
+      .map(folder => this.createFolderItem(folder, results));
+    const sessionItems = await Promise.all(results.entries
+      .filter(entry => entry.workspaceFolder === workspaceFolder && (entry.relativeFolder ?? '') === relativeFolder)
+      .map(entry => this.createSessionItem(entry)));
+    return [...folderItems, ...sessionItems];
+  }
+
   async getChildren(element?: SessionItem): Promise<SessionItem[]> {
+    if (!element && this.filter) {
+      return this.createFilteredItems();
+    }
+
     if (!element) {
       const results = await listSessions(this.context, { promptUser: false, showWarning: false });
       const items: SessionItem[] = [];
@@ -891,30 +5338,158 @@ class SessionProvider implements vscode.TreeDataProvider<SessionItem> {
       const locationItem = new SessionItem(`📁 Storage: ${locationLabel}`, vscode.TreeItemCollapsibleState.None, 'info');
       locationItem.tooltip = results.folder ?? 'Storage directory is not available.';
 
-      items.push(saveItem, changeLocationItem, deleteAllItem, locationItem);
+      const newFolderItem = new SessionItem(
+        '📂 New Session Folder',
+        vscode.TreeItemCollapsibleState.None,
+        'command',
+        undefined,
+        undefined,
+        { command: 'session-saver.createSessionFolder', title: 'New Session Folder' }
+      );
+
+      items.push(saveItem, newFolderItem, changeLocationItem, deleteAllItem, locationItem);
 
-      if (results.entries.length > 0) {
+      if (results.entries.length > 0 || results.folders.length > 0) {
         const headerItem = new SessionItem('───── Sessions ─────', vscode.TreeItemCollapsibleState.None, 'info');
         items.push(headerItem);
       }
 
-      for (const entry of results.entries) {
-        const sessionItem = new SessionItem(
-          entry.name,
+      const workspaceGroups = [...new Set([
+        ...results.entries.map(entry => entry.workspaceFolder),
+        ...results.folders.map(folder => folder.workspaceFolder)
+      ])];
+      if (workspaceGroups.length > 1 || workspaceGroups[0] !== undefined) {
+        for (const workspaceFolder of workspaceGroups) {
+          const groupItem = new SessionItem(
+            `🗂️ ${workspaceFolder}`,
+            vscode.TreeItemCollapsibleState.Expanded,
+            'workspaceGroup'
+          );
+          groupItem.workspaceFolder = workspaceFolder;
+          groupItem.description = `${results.entries.filter(entry => entry.workspaceFolder === workspaceFolder).length} session(s)`;
+          items.push(groupItem);
+        }
+      } else {
+        items.push(...await this.createLevelItems(results, undefined, ''));
+      }
+
+      const history = await listSessionHistory(this.context);
+      if (history.length > 0) {
+        const historyRootItem = new SessionItem(
+          '🕘 Session History',
           vscode.TreeItemCollapsibleState.Collapsed,
-          'session',
-          entry
+          'historyRoot'
         );
-        sessionItem.tooltip = entry.fullPath;
-        sessionItem.description = path.dirname(entry.fullPath);
-        sessionItem.contextValue = 'session';
-        items.push(sessionItem);
+        historyRootItem.description = `${history.length} session(s)`;
+        historyRootItem.tooltip = 'Previous versions of overwritten, edited and deleted sessions';
+        items.push(historyRootItem);
       }
 
+      const autosaves = await listAutosaves(this.context);
+      if (autosaves.length > 0) {
+        const autosaveRootItem = new SessionItem(
+          `🕒 Autosaves (${autosaves.length})`,
+          vscode.TreeItemCollapsibleState.Collapsed,
+          'autosaveRoot'
+        );
+        autosaveRootItem.tooltip = resolveAutosaveDirectory(this.context);
+        items.push(autosaveRootItem);
+      }
+
+      return items;
+    }
+
+    if (element.kind === 'workspaceGroup') {
+      const results = await listSessions(this.context, { promptUser: false, showWarning: false });
+      return this.createLevelItems(results, element.workspaceFolder, '');
+    }
+
+    if (element.kind === 'sessionFolder' && element.folder) {
+      const results = await listSessions(this.context, { promptUser: false, showWarning: false });
+      return this.createLevelItems(results, element.folder.workspaceFolder, element.folder.relativePath);
+    }
+
+    if (element.kind === 'historyRoot') {
+      const history = await listSessionHistory(this.context);
+      return history.map(record => {
+        const deleted = !storageExists(record.entry.fullPath);
+        const historyItem = new SessionItem(
+          deleted ? `🗑️ ${qualifiedSessionName(record.entry)}` : qualifiedSessionName(record.entry),
+          vscode.TreeItemCollapsibleState.Collapsed,
+          'historySession',
+          record.entry
+        );
+        historyItem.description = `${record.versions.length} version(s)${deleted ? ' · deleted' : ''}`;
+        historyItem.tooltip = sessionHistoryDirectory(record.entry.fullPath);
+        return historyItem;
+      });
+    }
+
+    if (element.kind === 'historySession' && element.entry) {
+      const versions = await listSessionVersions(element.entry.fullPath);
+      return versions.map(version => {
+        const versionItem = new SessionItem(
+          formatTimestamp(version.timestamp) ?? version.timestamp,
+          vscode.TreeItemCollapsibleState.Collapsed,
+          'historyVersion',
+          { name: path.basename(version.fullPath, '.json'), fullPath: version.fullPath }
+        );
+        versionItem.version = version;
+        versionItem.description = describeHistoryOperation(version.operation);
+        versionItem.tooltip = version.fullPath;
+        return versionItem;
+      });
+    }
+
+    if (element.kind === 'historyVersion' && element.version && element.entry) {
+      const items = [
+        new SessionItem(
+          '↩️ Restore This Version',
+          vscode.TreeItemCollapsibleState.None,
+          'restore',
+          element.entry,
+          undefined,
+          {
+            command: 'session-saver.restoreSessionVersion',
+            title: 'Restore This Version',
+            arguments: [element.version]
+          }
+        )
+      ];
+      if (storageExists(element.version.sessionPath)) {
+        items.push(new SessionItem(
+          '🔍 Compare with Current',
+          vscode.TreeItemCollapsibleState.None,
+          'restore',
+          element.entry,
+          undefined,
+          {
+            command: 'session-saver.compareSessionVersion',
+            title: 'Compare with Current',
+            arguments: [element.version]
+          }
+        ));
+      }
+      items.push(new SessionItem('📄 View Files', vscode.TreeItemCollapsibleState.Collapsed, 'filesRoot', element.entry));
       return items;
     }
 
-    if (element.kind === 'session' && element.entry) {
+    if (element.kind === 'autosaveRoot') {
+      const autosaves = await listAutosaves(this.context);
+      return autosaves.map(entry => {
+        const autosaveItem = new SessionItem(
+          describeAutosave(entry),
+          vscode.TreeItemCollapsibleState.Collapsed,
+          'autosave',
+          entry
+        );
+        autosaveItem.tooltip = entry.fullPath;
+        autosaveItem.contextValue = 'autosave';
+        return autosaveItem;
+      });
+    }
+
+    if ((element.kind === 'session' || element.kind === 'autosave') && element.entry) {
       const restoreItem = new SessionItem(
         '📂 Restore Session',
         vscode.TreeItemCollapsibleState.None,
@@ -954,6 +5529,19 @@ class SessionProvider implements vscode.TreeDataProvider<SessionItem> {
         }
       );
 
+      const editDetailsItem = new SessionItem(
+        '🏷️ Edit Details',
+        vscode.TreeItemCollapsibleState.None,
+        'restore',
+        element.entry,
+        undefined,
+        {
+          command: 'session-saver.editSessionMetadata',
+          title: 'Edit Session Details',
+          arguments: [element.entry]
+        }
+      );
+
       const filesRootItem = new SessionItem(
         '📄 View Files',
         vscode.TreeItemCollapsibleState.Collapsed,
@@ -961,7 +5549,59 @@ class SessionProvider implements vscode.TreeDataProvider<SessionItem> {
         element.entry
       );
 
-      return [restoreItem, overwriteItem, deleteItem, filesRootItem];
+      if (element.kind === 'autosave') {
+        return [restoreItem, deleteItem, filesRootItem];
+      }
+
+      const items = [restoreItem, overwriteItem, editDetailsItem, deleteItem, filesRootItem];
+      const entry = element.entry;
+      const matchItems = (element.matches ?? []).map(tabState => {
+        const matchItem = new SessionItem(
+          `🔎 ${savedTabDisplayName(tabState)}`,
+          vscode.TreeItemCollapsibleState.None,
+          'restore',
+          entry,
+          undefined,
+          {
+            command: 'session-saver.restoreSessionAtTab',
+            title: 'Restore Session and Focus File',
+            arguments: [entry, tabState]
+          }
+        );
+        matchItem.description = describeSavedLocation(tabState);
+        matchItem.tooltip = 'Restore this session and focus this file';
+        return matchItem;
+      });
+
+      if (currentGitBranches.size > 0) {
+        const [onlyBranch] = currentGitBranches.size === 1 ? [...currentGitBranches.values()] : [];
+        const bindItem = new SessionItem(
+          onlyBranch ? `🌿 Bind to Branch "${onlyBranch}"` : '🌿 Bind to Branch…',
+          vscode.TreeItemCollapsibleState.None,
+          'restore',
+          element.entry,
+          undefined,
+          {
+            command: 'session-saver.bindSessionToBranch',
+            title: 'Bind Session to Current Branch',
+            arguments: [element.entry]
+          }
+        );
+        items.splice(3, 0, bindItem);
+      }
+
+      const includeItems = await this.createIncludeItems(entry, [path.resolve(entry.fullPath)]);
+      return [...matchItems, ...items, ...includeItems];
+    }
+
+    if (element.kind === 'includedSession' && element.entry) {
+      const filesRootItem = new SessionItem(
+        '📄 View Files',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'filesRoot',
+        element.entry
+      );
+      return [filesRootItem, ...await this.createIncludeItems(element.entry, element.includeChain ?? [])];
     }
 
     if (element.kind === 'filesRoot' && element.entry) {
@@ -970,26 +5610,90 @@ class SessionProvider implements vscode.TreeDataProvider<SessionItem> {
         return [];
       }
 
-      return sessionData.tabs.map(tabState => {
-        const uri = vscode.Uri.parse(tabState.uri);
+      const { tabs, unmapped } = resolveSessionTabs(sessionData.tabs);
+      const unmappedTabs = new Set(unmapped);
+      const editable = !isReadOnlyEntry(this.context, element.entry);
+      const orderedTabs = [...tabs, ...unmapped].sort(compareTabPosition);
+
+      return orderedTabs.map(tabState => {
+        const tabFlag = tabState.isPinned ? ' (pinned)' : tabState.isPreview ? ' (preview)' : '';
+        const position = `Group ${tabState.groupIndex + 1}, Tab ${tabState.tabIndex + 1}${tabFlag}`;
+        const missing = isMissingFileCached(tabState);
+        const description = unmappedTabs.has(tabState)
+          ? `${position} · not in this workspace`
+          : missing ? `${position} · file not found` : position;
+        const savedUri = getSavedTabUri(tabState);
+
+        if (!savedUri) {
+          const kindLabel = describeTabKind(tabState.kind);
+          const placeholderItem = new SessionItem(
+            savedTabDisplayName(tabState),
+            vscode.TreeItemCollapsibleState.None,
+            'placeholder',
+            element.entry
+          );
+          placeholderItem.description = `${kindLabel} · ${position}`;
+          placeholderItem.tabPosition = { groupIndex: tabState.groupIndex, tabIndex: tabState.tabIndex };
+          placeholderItem.contextValue = editable ? 'sessionFile' : undefined;
+          placeholderItem.tooltip = isRestorableTab(tabState)
+            ? `${kindLabel} tab. A new one is opened in its place on restore.`
+            : `${kindLabel} tab. It cannot be reopened automatically and is skipped on restore.`;
+          return placeholderItem;
+        }
+
+        const uri = vscode.Uri.parse(savedUri);
         const filePath = uri.fsPath;
-        const fileLabel = path.basename(filePath);
-        const description = `Group ${tabState.groupIndex + 1}, Tab ${tabState.tabIndex + 1}`;
+        let command: vscode.Command | undefined = {
+          command: 'vscode.open',
+          title: 'Open File',
+          arguments: [uri]
+        };
+
+        if (tabState.kind === 'diff') {
+          command = {
+            command: 'vscode.diff',
+            title: 'Open Diff',
+            arguments: [vscode.Uri.parse(tabState.originalUri), uri, tabState.label]
+          };
+        } else if (tabState.kind === 'custom') {
+          command = {
+            command: 'vscode.openWith',
+            title: 'Open With Editor',
+            arguments: [uri, tabState.viewType]
+          };
+        } else if (tabState.kind === 'markdownPreview') {
+          command = {
+            command: 'markdown.showPreview',
+            title: 'Open Preview',
+            arguments: [uri]
+          };
+        } else if (tabState.kind === 'untitled') {
+          // The buffer only exists in the stash, so there is nothing on disk to open.
+          command = undefined;
+        }
 
         const fileItem = new SessionItem(
-          fileLabel,
+          tabState.kind === 'text' ? path.basename(filePath) : savedTabDisplayName(tabState),
           vscode.TreeItemCollapsibleState.None,
           'fileEntry',
           element.entry,
           filePath,
-          {
-            command: 'vscode.open',
-            title: 'Open File',
-            arguments: [uri]
-          }
+          command
         );
-        fileItem.tooltip = `${filePath}\nCursor: ${tabState.cursor ? `${tabState.cursor.line + 1}:${tabState.cursor.character + 1}` : 'N/A'}`;
-        fileItem.description = description;
+        const selections = tabState.selections ?? [];
+        const cursor = selections[0]?.active;
+        const extraCursors = selections.length > 1 ? ` (+${selections.length - 1} more)` : '';
+        fileItem.tooltip = `${filePath}\nCursor: ${cursor ? `${cursor.line + 1}:${cursor.character + 1}${extraCursors}` : 'N/A'}`;
+        if (tabState.bufferId) {
+          fileItem.tooltip += '\nUnsaved changes are stashed with this session.';
+        }
+        if (missing) {
+          fileItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+          fileItem.tooltip += '\nThis file no longer exists. Restore the session to find where it moved, or remove it.';
+        }
+        fileItem.description = tabState.kind === 'text' ? description : `${describeTabKind(tabState.kind)} · ${description}`;
+        fileItem.tabPosition = { groupIndex: tabState.groupIndex, tabIndex: tabState.tabIndex };
+        fileItem.contextValue = editable ? 'sessionFile' : undefined;
         return fileItem;
       });
     }
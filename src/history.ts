@@ -0,0 +1,38 @@
+export type SessionHistoryOperation = 'overwrite' | 'edit' | 'delete' | 'restore';
+
+export const HISTORY_OPERATIONS: SessionHistoryOperation[] = ['overwrite', 'edit', 'delete', 'restore'];
+
+// File names are `<ISO timestamp with : and . replaced by ->.<operation>[.<copy>].json`. The copy number only
+// appears on a version merged into a history that already had a file of that name.
+const VERSION_FILE_NAME = /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3}Z)\.(\w+?)(?:\.(\d+))?\.json$/;
+
+export function historyVersionFileName(timestamp: string, operation: SessionHistoryOperation, copy?: number): string {
+  return `${timestamp.replace(/[:.]/g, '-')}.${operation}${copy ? `.${copy}` : ''}.json`;
+}
+
+export function parseHistoryVersionFileName(file: string): { timestamp: string; operation: SessionHistoryOperation; copy?: number } | undefined {
+  const match = VERSION_FILE_NAME.exec(file);
+  const operation = HISTORY_OPERATIONS.find(candidate => candidate === match?.[5]);
+  if (!match || !operation) {
+    return undefined;
+  }
+  return {
+    timestamp: `${match[1]}:${match[2]}:${match[3]}.${match[4]}`,
+    operation,
+    copy: match[6] ? Number(match[6]) : undefined
+  };
+}
+
+// Picks a name for a version moved into another session's history, numbering it when `taken` already has its name.
+export function mergedHistoryFileName(file: string, taken: ReadonlySet<string>): string | undefined {
+  const version = parseHistoryVersionFileName(file);
+  if (!version) {
+    return undefined;
+  }
+
+  let name = file;
+  for (let copy = 2; taken.has(name); copy++) {
+    name = historyVersionFileName(version.timestamp, version.operation, copy);
+  }
+  return name;
+}
@@ -0,0 +1,35 @@
+import { SessionFileRecord } from './sessionFormat';
+
+export type RestoreMode = 'replace' | 'merge' | 'new window';
+export type RestoreModeSetting = 'ask' | RestoreMode;
+
+export const RESTORE_MODES: RestoreMode[] = ['replace', 'merge', 'new window'];
+
+export const PENDING_WINDOW_RESTORE_TTL_MS = 60 * 1000;
+
+export interface PendingWindowRestore {
+  entry: SessionFileRecord;
+  // The folders of the workspace the new window opens, as built by `windowWorkspaceKey`; unset for an empty window.
+  workspace?: string;
+  requestedAt: number;
+}
+
+export function parseRestoreMode(value: unknown): RestoreMode | undefined {
+  return RESTORE_MODES.find(mode => mode === value);
+}
+
+// Takes the oldest live request made for `workspace`. Requests that have expired are dropped from what remains.
+export function claimPendingWindowRestore(
+  restores: Record<string, PendingWindowRestore>,
+  workspace: string | undefined,
+  now: number
+): { claimed?: PendingWindowRestore; remaining: Record<string, PendingWindowRestore> } {
+  const live = Object.entries(restores).filter(([, pending]) => now - pending.requestedAt <= PENDING_WINDOW_RESTORE_TTL_MS);
+  const claimed = live
+    .filter(([, pending]) => pending.workspace === workspace)
+    .sort(([, a], [, b]) => a.requestedAt - b.requestedAt)[0];
+  return {
+    claimed: claimed?.[1],
+    remaining: Object.fromEntries(live.filter(candidate => candidate !== claimed))
+  };
+}
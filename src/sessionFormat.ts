@@ -0,0 +1,505 @@
+import type * as vscode from 'vscode';
+
+export const SESSION_FILE_VERSION = 3;
+export const BUFFER_STASH_VERSION = 1;
+export const SESSION_BUNDLE_FORMAT = 'session-saver-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+
+export interface SessionFileRecord {
+  name: string;
+  fullPath: string;
+  workspaceFolder?: string;
+  relativeFolder?: string;
+}
+
+export interface SavedCursorPosition {
+  line: number;
+  character: number;
+}
+
+export interface SavedSelection {
+  anchor: SavedCursorPosition;
+  active: SavedCursorPosition;
+}
+
+export interface SavedRange {
+  start: SavedCursorPosition;
+  end: SavedCursorPosition;
+}
+
+export interface SavedFoldedRegion {
+  startLine: number;
+  endLine: number;
+}
+
+export interface SavedEditorState {
+  selections: SavedSelection[];
+  visibleRanges: SavedRange[];
+  foldedRegions: SavedFoldedRegion[];
+}
+
+export type SavedTabInput =
+  | { kind: 'text'; uri: string }
+  | { kind: 'untitled'; uri: string }
+  | { kind: 'diff'; uri: string; originalUri: string; originalLocation?: SavedWorkspaceLocation }
+  | { kind: 'notebook'; uri: string; notebookType: string }
+  | { kind: 'custom'; uri: string; viewType: string }
+  | { kind: 'markdownPreview'; uri: string }
+  | { kind: 'terminal' }
+  | { kind: 'webview'; viewType: string }
+  | { kind: 'unknown' };
+
+export type SavedTabKind = SavedTabInput['kind'];
+
+// A file addressed by workspace folder name and a `/`-separated relative path.
+export interface SavedWorkspaceLocation {
+  folder: string;
+  path: string;
+}
+
+export interface SavedTabPlacement extends Partial<SavedEditorState> {
+  label?: string;
+  location?: SavedWorkspaceLocation;
+  groupIndex: number;
+  tabIndex: number;
+  viewColumn?: vscode.ViewColumn;
+  isGroupActive: boolean;
+  isGlobalActive: boolean;
+  isPinned?: boolean;
+  isPreview?: boolean;
+  bufferId?: string;
+}
+
+export type SavedTabState = SavedTabInput & SavedTabPlacement;
+
+// Version 2 files stored a single cursor per tab instead of full selections,
+// and files written before tab kinds existed only ever contained text tabs.
+export interface LegacySavedTabState extends SavedTabPlacement {
+  kind?: SavedTabKind;
+  uri?: string;
+  cursor?: SavedCursorPosition;
+}
+
+// Mirrors the shape used by the `vscode.getEditorLayout` / `vscode.setEditorLayout` commands,
+// with sizes normalized to fractions of their parent.
+export interface SavedEditorGroupLayout {
+  size?: number;
+  groups?: SavedEditorGroupLayout[];
+}
+
+export interface SavedEditorLayout {
+  orientation: 0 | 1;
+  groups: SavedEditorGroupLayout[];
+}
+
+export interface StashedBuffer {
+  languageId: string;
+  content: string;
+}
+
+// Unsaved buffer contents live in a sibling `<session>.buffers` file, keyed by `SavedTabState.bufferId`.
+export interface BufferStashContent {
+  version: number;
+  buffers: Record<string, StashedBuffer>;
+}
+
+// A portable file holding one or more sessions, for sharing outside the session folder.
+export interface SessionBundleEntry {
+  name: string;
+  folder?: string;
+  content: SessionFileContent;
+  buffers?: Record<string, StashedBuffer>;
+}
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: SessionBundleEntry[];
+}
+
+export interface SessionGitInfo {
+  branch?: string;
+  head?: string;
+}
+
+export interface SessionMetadata {
+  description?: string;
+  tags?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+  restoreCount?: number;
+  git?: SessionGitInfo;
+  boundBranch?: string;
+  // Root URI of the repository `boundBranch` belongs to; bindings made before it was recorded match any repository.
+  boundRepository?: string;
+}
+
+export interface SessionFileContent {
+  version: number;
+  metadata?: SessionMetadata;
+  layout?: SavedEditorLayout;
+  tabs: SavedTabState[];
+  // Names of other sessions whose tabs are opened along with this one.
+  includes?: string[];
+}
+
+const INVALID_PATH_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/;
+// Windows reserves these device names, with or without an extension.
+const RESERVED_PATH_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+export function validatePathSegment(value: string, label: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return `${label} cannot be empty.`;
+  }
+  if (trimmed === '.' || trimmed === '..') {
+    return `${label} cannot be "." or "..".`;
+  }
+  if (INVALID_PATH_CHARACTERS.test(trimmed)) {
+    return `${label} cannot contain / \\ : * ? " < > | or control characters.`;
+  }
+  if (trimmed.startsWith('.')) {
+    return `${label} cannot start with ".".`;
+  }
+  // Windows drops a trailing dot or space, so the stored name would differ from the one typed.
+  if (/[. ]$/.test(value)) {
+    return `${label} cannot end with "." or a space.`;
+  }
+  if (RESERVED_PATH_NAMES.test(trimmed)) {
+    return `${label} cannot be a reserved name such as CON, NUL, COM1 or LPT1.`;
+  }
+  return undefined;
+}
+
+export function qualifiedSessionName(entry: SessionFileRecord): string {
+  return entry.relativeFolder ? `${entry.relativeFolder}/${entry.name}` : entry.name;
+}
+
+// The API does not expose folding state, but folded lines are excluded from
+// `visibleRanges`: every gap between two visible ranges is a folded region
+// whose header is the last line of the preceding range.
+export function detectFoldedRegions(visibleRanges: readonly SavedRange[], previous: SavedFoldedRegion[]): SavedFoldedRegion[] {
+  if (visibleRanges.length === 0) {
+    return previous;
+  }
+
+  const viewportStart = visibleRanges[0].start.line;
+  const viewportEnd = visibleRanges[visibleRanges.length - 1].end.line;
+
+  // Folds outside the viewport cannot be observed, so keep what we knew about them.
+  const regions = previous.filter(region => region.endLine < viewportStart || region.startLine > viewportEnd);
+
+  for (let i = 1; i < visibleRanges.length; i++) {
+    const startLine = visibleRanges[i - 1].end.line;
+    const endLine = visibleRanges[i].start.line - 1;
+    if (endLine > startLine) {
+      regions.push({ startLine, endLine });
+    }
+  }
+
+  return regions.sort((a, b) => a.startLine - b.startLine);
+}
+
+export function getSavedTabUri(tabState: SavedTabState): string | undefined {
+  return 'uri' in tabState ? tabState.uri : undefined;
+}
+
+// Identifies a tab for duplicate detection when merging; terminals and placeholders never match.
+export function savedTabKey(tabState: SavedTabInput): string | undefined {
+  if (tabState.kind === 'diff') {
+    return `${tabState.originalUri}\n${tabState.uri}`;
+  }
+  // A preview sits next to its source file's tab, so the two must not count as duplicates.
+  if (tabState.kind === 'markdownPreview') {
+    return `markdown-preview:${tabState.uri}`;
+  }
+  return 'uri' in tabState ? tabState.uri : undefined;
+}
+
+export function normalizeGroupLayouts(groups: SavedEditorGroupLayout[]): SavedEditorGroupLayout[] {
+  const total = groups.reduce((sum, group) => sum + (group.size ?? 0), 0);
+  return groups.map(group => {
+    const normalized: SavedEditorGroupLayout = {};
+    if (total > 0 && group.size !== undefined) {
+      normalized.size = Math.round((group.size / total) * 10000) / 10000;
+    }
+    if (group.groups && group.groups.length > 0) {
+      normalized.groups = normalizeGroupLayouts(group.groups);
+    }
+    return normalized;
+  });
+}
+
+function isGroupLayoutList(value: unknown): value is SavedEditorGroupLayout[] {
+  return Array.isArray(value) && value.every(group =>
+    group && typeof group === 'object'
+    && (group.size === undefined || typeof group.size === 'number')
+    && (group.groups === undefined || isGroupLayoutList(group.groups))
+  );
+}
+
+export function isEditorLayout(value: unknown): value is SavedEditorLayout {
+  const layout = value as SavedEditorLayout | undefined;
+  return !!layout && (layout.orientation === 0 || layout.orientation === 1) && isGroupLayoutList(layout.groups);
+}
+
+export function normalizeMetadata(value: unknown): SessionMetadata | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const git = raw.git && typeof raw.git === 'object' ? raw.git as Record<string, unknown> : undefined;
+  const asString = (candidate: unknown) => typeof candidate === 'string' ? candidate : undefined;
+
+  return {
+    description: asString(raw.description),
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+    createdAt: asString(raw.createdAt),
+    updatedAt: asString(raw.updatedAt),
+    restoreCount: typeof raw.restoreCount === 'number' ? raw.restoreCount : undefined,
+    git: git ? { branch: asString(git.branch), head: asString(git.head) } : undefined,
+    boundBranch: asString(raw.boundBranch),
+    boundRepository: asString(raw.boundRepository)
+  };
+}
+
+export function migrateTabState(tab: LegacySavedTabState, version: number): SavedTabState {
+  const { cursor, ...rest } = tab;
+  const migrated = { ...rest, kind: rest.kind ?? 'text' } as SavedTabState;
+
+  if (version < 3 && cursor) {
+    migrated.selections = [{ anchor: cursor, active: cursor }];
+  }
+
+  return migrated;
+}
+
+// Validates parsed session JSON and migrates it to the current version.
+export function parseSessionContent(parsed: unknown): SessionFileContent | undefined {
+  if (!parsed || typeof parsed !== 'object') {
+    return undefined;
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  if (!Array.isArray(raw.tabs)) {
+    return undefined;
+  }
+
+  const version = typeof raw.version === 'number' ? raw.version : 1;
+  return {
+    version: SESSION_FILE_VERSION,
+    metadata: normalizeMetadata(raw.metadata),
+    layout: isEditorLayout(raw.layout) ? raw.layout : undefined,
+    tabs: (raw.tabs as unknown[])
+      .filter((tab): tab is LegacySavedTabState => !!tab && typeof tab === 'object')
+      .map(tab => migrateTabState(tab, version)),
+    includes: Array.isArray(raw.includes)
+      ? raw.includes.filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+      : undefined
+  };
+}
+
+// Bundles address files inside a workspace folder by their location alone, so no absolute paths leave the machine.
+// Files outside every workspace folder keep their URI.
+export function toPortableTab(tabState: SavedTabState): SavedTabState {
+  const portable: Record<string, unknown> = { ...tabState };
+  if (tabState.location) {
+    delete portable.uri;
+  }
+  if (tabState.kind === 'diff' && tabState.originalLocation) {
+    delete portable.originalUri;
+  }
+  return portable as unknown as SavedTabState;
+}
+
+// Gives an imported tab back the URIs `toPortableTab` left out, as `resolve` maps its locations onto this machine.
+export function fromPortableTab(tabState: SavedTabState, resolve: (location: SavedWorkspaceLocation) => string): SavedTabState {
+  const raw = tabState as Partial<Record<'uri' | 'originalUri', unknown>>;
+  const restored: Record<string, unknown> = { ...tabState };
+  if (typeof raw.uri !== 'string' && tabState.location) {
+    restored.uri = resolve(tabState.location);
+  }
+  if (tabState.kind === 'diff' && typeof raw.originalUri !== 'string' && tabState.originalLocation) {
+    restored.originalUri = resolve(tabState.originalLocation);
+  }
+  return restored as unknown as SavedTabState;
+}
+
+// Keeps the entries that are well-formed buffers; returns undefined when none are.
+export function parseStashedBuffers(value: unknown): Record<string, StashedBuffer> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const buffers = Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, StashedBuffer] => {
+    const buffer = entry[1] as Partial<StashedBuffer> | undefined;
+    return !!buffer && typeof buffer.languageId === 'string' && typeof buffer.content === 'string';
+  });
+  return buffers.length > 0
+    ? Object.fromEntries(buffers.map(([bufferId, buffer]) => [bufferId, { languageId: buffer.languageId, content: buffer.content }]))
+    : undefined;
+}
+
+const SAVED_TAB_KINDS: ReadonlySet<string> = new Set<SavedTabKind>(
+  ['text', 'untitled', 'diff', 'notebook', 'custom', 'markdownPreview', 'terminal', 'webview', 'unknown']
+);
+
+function isWorkspaceLocation(value: unknown): value is SavedWorkspaceLocation {
+  const location = value as Partial<SavedWorkspaceLocation> | undefined;
+  return !!location && typeof location === 'object' && typeof location.folder === 'string' && typeof location.path === 'string';
+}
+
+function isTabIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Checks a tab from a file this extension did not write. Portable tabs may carry a location in place of their URI.
+export function isValidTabState(value: unknown): value is SavedTabState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const tab = value as Record<string, unknown>;
+  if (typeof tab.kind !== 'string' || !SAVED_TAB_KINDS.has(tab.kind) || !isTabIndex(tab.groupIndex) || !isTabIndex(tab.tabIndex)) {
+    return false;
+  }
+
+  switch (tab.kind) {
+    case 'terminal':
+    case 'unknown':
+      return true;
+    case 'webview':
+      return typeof tab.viewType === 'string';
+  }
+
+  if (typeof tab.uri !== 'string' && !isWorkspaceLocation(tab.location)) {
+    return false;
+  }
+  switch (tab.kind) {
+    case 'diff':
+      return typeof tab.originalUri === 'string' || isWorkspaceLocation(tab.originalLocation);
+    case 'notebook':
+      return typeof tab.notebookType === 'string';
+    case 'custom':
+      return typeof tab.viewType === 'string';
+    default:
+      return true;
+  }
+}
+
+// An imported session keeps only its valid tabs, and is never bound to a branch of this machine's repositories.
+function toImportedContent(content: SessionFileContent): { content: SessionFileContent; skippedTabs: number } {
+  const tabs = content.tabs.filter(isValidTabState);
+  return {
+    content: { ...content, metadata: { ...content.metadata, boundBranch: undefined, boundRepository: undefined }, tabs },
+    skippedTabs: content.tabs.length - tabs.length
+  };
+}
+
+// Accepts a bundle or a single plain session file. Entries that fail validation are counted, not imported,
+// and so are the invalid tabs dropped from the entries that are.
+export function parseSessionBundle(
+  parsed: unknown,
+  fallbackName: string
+): { sessions: SessionBundleEntry[]; invalid: number; skippedTabs: number } | undefined {
+  const single = parseSessionContent(parsed);
+  if (single) {
+    const { content, skippedTabs } = toImportedContent(single);
+    return { sessions: [{ name: fallbackName, content }], invalid: 0, skippedTabs };
+  }
+
+  const raw = parsed as Partial<SessionBundle> | undefined;
+  if (!raw || raw.format !== SESSION_BUNDLE_FORMAT || !Array.isArray(raw.sessions)) {
+    return undefined;
+  }
+
+  const sessions: SessionBundleEntry[] = [];
+  let invalid = 0;
+  let skippedTabs = 0;
+  for (const candidate of raw.sessions as unknown[]) {
+    const item = candidate as Partial<SessionBundleEntry> | undefined;
+    const content = parseSessionContent(item?.content);
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    const folder = typeof item?.folder === 'string' && item.folder ? item.folder : undefined;
+    if (!content || validatePathSegment(name, 'Session name')
+      || (folder && folder.split('/').some(segment => validatePathSegment(segment, 'Folder name')))) {
+      invalid++;
+      continue;
+    }
+    const imported = toImportedContent(content);
+    skippedTabs += imported.skippedTabs;
+    sessions.push({ name, folder, content: imported.content, buffers: parseStashedBuffers(item?.buffers) });
+  }
+
+  return { sessions, invalid, skippedTabs };
+}
+
+export function compareTabPosition(a: SavedTabPlacement, b: SavedTabPlacement): number {
+  return a.groupIndex - b.groupIndex || a.tabIndex - b.tabIndex;
+}
+
+// Reassigns consecutive tab indexes per group, keeping the array order within each group.
+export function renumberSessionTabs(tabs: SavedTabState[]): SavedTabState[] {
+  const counters = new Map<number, number>();
+  return tabs.map(tabState => {
+    const tabIndex = counters.get(tabState.groupIndex) ?? 0;
+    counters.set(tabState.groupIndex, tabIndex + 1);
+    return { ...tabState, tabIndex };
+  });
+}
+
+// Gives the buffers referenced by `tabs` fresh `buffer-N` ids that are not in `taken`, so they can be merged into
+// another session's stash. Tabs whose buffer is not in `stash` lose their `bufferId`.
+export function rekeyStashedBuffers(
+  tabs: SavedTabState[],
+  stash: Record<string, StashedBuffer>,
+  taken: Iterable<string>
+): { tabs: SavedTabState[]; buffers: Record<string, StashedBuffer> } {
+  const used = new Set(taken);
+  const ids = new Map<string, string>();
+  const buffers: Record<string, StashedBuffer> = {};
+  let next = 1;
+
+  const rekeyed = tabs.map(tabState => {
+    if (!tabState.bufferId) {
+      return tabState;
+    }
+    if (!stash[tabState.bufferId]) {
+      return { ...tabState, bufferId: undefined };
+    }
+
+    let bufferId = ids.get(tabState.bufferId);
+    if (!bufferId) {
+      while (used.has(`buffer-${next}`)) {
+        next++;
+      }
+      bufferId = `buffer-${next}`;
+      used.add(bufferId);
+      ids.set(tabState.bufferId, bufferId);
+      buffers[bufferId] = stash[tabState.bufferId];
+    }
+    return { ...tabState, bufferId };
+  });
+
+  return { tabs: rekeyed, buffers };
+}
+
+// Every buffer id a session uses, including ids of tabs whose stash entry is gone.
+export function usedBufferIds(tabs: SavedTabState[], stash: Record<string, StashedBuffer>): string[] {
+  return [...Object.keys(stash), ...tabs.flatMap(tabState => tabState.bufferId ? [tabState.bufferId] : [])];
+}
+
+// Maps a URI through renamed files or folders; a renamed folder moves everything beneath it.
+export function renameSavedUri(uri: string, renames: Array<{ from: string; to: string }>): string | undefined {
+  for (const { from, to } of renames) {
+    if (uri === from) {
+      return to;
+    }
+    if (uri.startsWith(`${from}/`)) {
+      return to + uri.slice(from.length);
+    }
+  }
+  return undefined;
+}
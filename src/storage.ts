@@ -0,0 +1,292 @@
+import type * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type MementoStorageLocation = 'settingsSync' | 'workspaceState';
+
+export interface StorageDirectoryEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+// Session files are addressed by path everywhere; a provider owns every path under its root.
+export interface SessionStorageProvider {
+  exists(filePath: string): boolean;
+  readFile(filePath: string): Promise<string>;
+  writeFile(filePath: string, data: string): Promise<void>;
+  createDirectory(dirPath: string): Promise<void>;
+  readDirectory(dirPath: string): Promise<StorageDirectoryEntry[]>;
+  rename(source: string, target: string): Promise<void>;
+  copyFile(source: string, target: string): Promise<void>;
+  delete(targetPath: string): Promise<void>;
+}
+
+// Memento-backed storage keeps every file under one key, with `/`-separated paths relative to its root.
+export interface MementoStorageState {
+  files: Record<string, string>;
+  folders: string[];
+}
+
+export class FileSystemStorageProvider implements SessionStorageProvider {
+  exists(filePath: string): boolean {
+    return fs.existsSync(filePath);
+  }
+
+  readFile(filePath: string): Promise<string> {
+    return fs.promises.readFile(filePath, 'utf8');
+  }
+
+  // Writes through a temp file in the same folder and renames it into place,
+  // so a crash mid-write never leaves a truncated session behind.
+  async writeFile(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, data, 'utf8');
+      await fs.promises.rename(tempPath, filePath);
+    } catch (err) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw err;
+    }
+  }
+
+  async createDirectory(dirPath: string): Promise<void> {
+    await fs.promises.mkdir(dirPath, { recursive: true });
+  }
+
+  async readDirectory(dirPath: string): Promise<StorageDirectoryEntry[]> {
+    const dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    return dirents.map(dirent => ({ name: dirent.name, isDirectory: dirent.isDirectory() }));
+  }
+
+  rename(source: string, target: string): Promise<void> {
+    return fs.promises.rename(source, target);
+  }
+
+  copyFile(source: string, target: string): Promise<void> {
+    return fs.promises.copyFile(source, target);
+  }
+
+  delete(targetPath: string): Promise<void> {
+    return fs.promises.rm(targetPath, { recursive: true, force: true });
+  }
+}
+
+// Stores sessions in `globalState` or `workspaceState`. Paths under `root` are virtual: nothing is written to disk.
+// Files matched by `includes` are kept under a separate key, e.g. so they are left out of a key that is synced.
+export interface MementoLocalFiles {
+  key: string;
+  includes(relativePath: string): boolean;
+}
+
+export class MementoStorageProvider implements SessionStorageProvider {
+  // Every change reads the whole state and writes it back, so changes run one at a time; otherwise concurrent
+  // writes each start from a stale state and the last one drops what the others added.
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly location: MementoStorageLocation,
+    readonly root: string,
+    private readonly memento: vscode.Memento,
+    private readonly key: string,
+    private readonly local?: MementoLocalFiles
+  ) {}
+
+  contains(targetPath: string): boolean {
+    const relative = path.relative(this.root, path.resolve(targetPath));
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  private relative(targetPath: string): string {
+    return path.relative(this.root, path.resolve(targetPath)).split(path.sep).join('/');
+  }
+
+  // Copies the stored state so updates never mutate the memento's cached value in place.
+  private readState(): MementoStorageState {
+    const state = this.memento.get<Partial<MementoStorageState>>(this.key);
+    const local = this.local ? this.memento.get<Partial<MementoStorageState>>(this.local.key) : undefined;
+    return {
+      files: { ...state?.files, ...local?.files },
+      folders: [...(state?.folders ?? []), ...(local?.folders ?? [])]
+    };
+  }
+
+  private async writeState(state: MementoStorageState) {
+    const local = this.local;
+    if (!local) {
+      await this.memento.update(this.key, state);
+      return;
+    }
+
+    const pick = (isLocal: boolean): MementoStorageState => ({
+      files: Object.fromEntries(Object.entries(state.files).filter(([file]) => local.includes(file) === isLocal)),
+      folders: state.folders.filter(folder => local.includes(folder) === isLocal)
+    });
+    await this.memento.update(this.key, pick(false));
+    await this.memento.update(local.key, pick(true));
+  }
+
+  private enqueue<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(change);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private isWithin(candidate: string, relative: string): boolean {
+    return relative === '' || candidate === relative || candidate.startsWith(`${relative}/`);
+  }
+
+  exists(filePath: string): boolean {
+    const relative = this.relative(filePath);
+    const state = this.readState();
+    return relative === ''
+      || relative in state.files
+      || state.folders.includes(relative)
+      || Object.keys(state.files).some(file => file.startsWith(`${relative}/`));
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.readState().files[this.relative(filePath)];
+    if (content === undefined) {
+      throw Object.assign(new Error(`ENOENT: no such file, open '${filePath}'`), { code: 'ENOENT' });
+    }
+    return content;
+  }
+
+  writeFile(filePath: string, data: string): Promise<void> {
+    return this.enqueue(async () => {
+      const state = this.readState();
+      state.files[this.relative(filePath)] = data;
+      await this.writeState(state);
+    });
+  }
+
+  createDirectory(dirPath: string): Promise<void> {
+    return this.enqueue(async () => {
+      const relative = this.relative(dirPath);
+      const state = this.readState();
+      if (relative && !state.folders.includes(relative)) {
+        state.folders.push(relative);
+        await this.writeState(state);
+      }
+    });
+  }
+
+  async readDirectory(dirPath: string): Promise<StorageDirectoryEntry[]> {
+    const relative = this.relative(dirPath);
+    const prefix = relative ? `${relative}/` : '';
+    const state = this.readState();
+    const children = new Map<string, boolean>();
+    for (const candidate of [...Object.keys(state.files), ...state.folders.map(folder => `${folder}/`)]) {
+      if (!candidate.startsWith(prefix)) {
+        continue;
+      }
+      const rest = candidate.slice(prefix.length);
+      const separator = rest.indexOf('/');
+      const name = separator < 0 ? rest : rest.slice(0, separator);
+      if (name) {
+        children.set(name, (children.get(name) ?? false) || separator >= 0);
+      }
+    }
+    return [...children].map(([name, isDirectory]) => ({ name, isDirectory }));
+  }
+
+  // Renames a file, or a folder together with everything inside it.
+  rename(source: string, target: string): Promise<void> {
+    return this.enqueue(async () => {
+      const from = this.relative(source);
+      const to = this.relative(target);
+      const state = this.readState();
+      const move = (candidate: string) => this.isWithin(candidate, from) ? to + candidate.slice(from.length) : candidate;
+      state.files = Object.fromEntries(Object.entries(state.files).map(([file, content]) => [move(file), content]));
+      state.folders = state.folders.map(move);
+      await this.writeState(state);
+    });
+  }
+
+  async copyFile(source: string, target: string): Promise<void> {
+    await this.writeFile(target, await this.readFile(source));
+  }
+
+  delete(targetPath: string): Promise<void> {
+    return this.enqueue(async () => {
+      const relative = this.relative(targetPath);
+      const state = this.readState();
+      state.files = Object.fromEntries(Object.entries(state.files).filter(([file]) => !this.isWithin(file, relative)));
+      state.folders = state.folders.filter(folder => !this.isWithin(folder, relative));
+      await this.writeState(state);
+    });
+  }
+}
+
+// Routes every path to the provider that owns it, and reports each change made through it with the paths it touched.
+export class SessionStorage {
+  readonly fileSystem = new FileSystemStorageProvider();
+  mementoProviders: MementoStorageProvider[] = [];
+
+  constructor(private readonly onDidChange: (changedPaths: string[]) => void = () => undefined) {}
+
+  providerFor(targetPath: string): SessionStorageProvider {
+    return this.mementoProviders.find(provider => provider.contains(targetPath)) ?? this.fileSystem;
+  }
+
+  exists(targetPath: string): boolean {
+    return this.providerFor(targetPath).exists(targetPath);
+  }
+
+  readFile(filePath: string): Promise<string> {
+    return this.providerFor(filePath).readFile(filePath);
+  }
+
+  async writeFile(filePath: string, data: string): Promise<void> {
+    await this.providerFor(filePath).writeFile(filePath, data);
+    this.onDidChange([filePath]);
+  }
+
+  async delete(targetPath: string): Promise<void> {
+    await this.providerFor(targetPath).delete(targetPath);
+    this.onDidChange([targetPath]);
+  }
+
+  async rename(source: string, target: string): Promise<void> {
+    const from = this.providerFor(source);
+    const to = this.providerFor(target);
+    if (from === to) {
+      await from.rename(source, target);
+    } else {
+      await this.transfer(from, source, to, target);
+      await from.delete(source);
+    }
+    this.onDidChange([source, target]);
+  }
+
+  async copyFile(source: string, target: string): Promise<void> {
+    const from = this.providerFor(source);
+    const to = this.providerFor(target);
+    if (from === to) {
+      await from.copyFile(source, target);
+    } else {
+      await to.writeFile(target, await from.readFile(source));
+    }
+    this.onDidChange([target]);
+  }
+
+  // Copies a file, or a folder with everything inside it, between two providers. Reading a folder as a file fails
+  // on either backend, which is how the two are told apart.
+  private async transfer(from: SessionStorageProvider, source: string, to: SessionStorageProvider, target: string): Promise<void> {
+    let content: string | undefined;
+    try {
+      content = await from.readFile(source);
+    } catch {
+      content = undefined;
+    }
+    if (content !== undefined) {
+      await to.writeFile(target, content);
+      return;
+    }
+
+    await to.createDirectory(target);
+    for (const child of await from.readDirectory(source)) {
+      await this.transfer(from, path.join(source, child.name), to, path.join(target, child.name));
+    }
+  }
+}
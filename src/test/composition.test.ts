@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { findTabOwners, layerSessionTabs, resolveSessionIncludes } from '../composition';
+import { SavedTabState, SessionFileContent, SessionFileRecord, savedTabKey } from '../sessionFormat';
+
+function textTab(uri: string, groupIndex: number, tabIndex: number, isActive = false): SavedTabState {
+	return { kind: 'text', uri, groupIndex, tabIndex, isGroupActive: isActive, isGlobalActive: isActive };
+}
+
+function entry(name: string, relativeFolder?: string, workspaceFolder?: string): SessionFileRecord {
+	const folder = workspaceFolder ?? 'root';
+	return { name, relativeFolder, workspaceFolder, fullPath: `/${folder}/sessions/${relativeFolder ? `${relativeFolder}/` : ''}${name}.json` };
+}
+
+function session(...includes: string[]): SessionFileContent {
+	return { version: 3, tabs: [], includes };
+}
+
+suite('Session composition', () => {
+	test('resolves includes depth-first and reports missing sessions', async () => {
+		const owner = entry('app');
+		const api = entry('api', 'backend');
+		const db = entry('db');
+		const contents = new Map([[api.fullPath, session('db')], [db.fullPath, session()]]);
+
+		const composition = await resolveSessionIncludes([owner, api, db], owner, session('backend/api', 'ghost'), async filePath => contents.get(filePath));
+
+		assert.deepStrictEqual(composition.layers.map(layer => layer.entry.name), ['api', 'db']);
+		assert.deepStrictEqual(composition.missing, ['ghost']);
+		assert.deepStrictEqual(composition.cycles, []);
+	});
+
+	test('prefers the included session next to the including one', async () => {
+		const owner = entry('app', undefined, 'client');
+		const serverShared = entry('shared', undefined, 'server');
+		const clientShared = entry('shared', undefined, 'client');
+
+		const composition = await resolveSessionIncludes([owner, serverShared, clientShared], owner, session('shared'), async () => session());
+
+		assert.strictEqual(composition.layers[0].entry, clientShared);
+	});
+
+	test('skips include cycles and sessions that were already layered', async () => {
+		const owner = entry('app');
+		const a = entry('a');
+		const b = entry('b');
+		const contents = new Map([[a.fullPath, session('b', 'app')], [b.fullPath, session('a')]]);
+
+		const composition = await resolveSessionIncludes([owner, a, b], owner, session('a', 'b'), async filePath => contents.get(filePath));
+
+		assert.deepStrictEqual(composition.layers.map(layer => layer.entry.name), ['a', 'b']);
+		assert.deepStrictEqual(composition.cycles, ['app → a → b → a', 'app → a → app']);
+	});
+
+	test('layers included tabs after the own tabs without duplicates', () => {
+		const own = { tabs: [textTab('file:///a.ts', 0, 0, true)], stash: {} };
+		const included = { tabs: [textTab('file:///a.ts', 0, 0), textTab('file:///b.ts', 0, 1, true)], stash: {} };
+
+		const { tabs } = layerSessionTabs(own, [included], savedTabKey);
+
+		assert.deepStrictEqual(tabs.map(tabState => 'uri' in tabState && tabState.uri), ['file:///a.ts', 'file:///b.ts']);
+		assert.deepStrictEqual(tabs.map(tabState => tabState.tabIndex), [0, 1]);
+		assert.deepStrictEqual(tabs.map(tabState => tabState.isGlobalActive), [true, false]);
+	});
+
+	test('re-keys stashed buffers of included sessions that reuse an id', () => {
+		const own = { tabs: [{ ...textTab('untitled:Untitled-1', 0, 0), bufferId: 'buffer-1' }], stash: { 'buffer-1': { languageId: 'sql', content: 'own' } } };
+		const included = { tabs: [{ ...textTab('untitled:Untitled-2', 0, 0), bufferId: 'buffer-1' }], stash: { 'buffer-1': { languageId: 'sql', content: 'included' } } };
+
+		const { tabs, stash } = layerSessionTabs(own, [included], savedTabKey);
+
+		assert.deepStrictEqual(tabs.map(tabState => tabState.bufferId), ['buffer-1', 'buffer-2']);
+		assert.deepStrictEqual(Object.fromEntries(Object.entries(stash).map(([id, buffer]) => [id, buffer.content])), { 'buffer-1': 'own', 'buffer-2': 'included' });
+	});
+
+	test('traces failed tabs back to the session that lists them', () => {
+		const owner = entry('app');
+		const shared = entry('shared');
+		const content = { version: 3, tabs: [textTab('file:///a.ts', 0, 0)] };
+		const composition = {
+			layers: [{ entry: shared, content: { version: 3, tabs: [textTab('file:///a.ts', 0, 0), textTab('file:///b.ts', 0, 1)] } }],
+			missing: [],
+			cycles: []
+		};
+
+		const owners = findTabOwners(owner, content, composition, [textTab('file:///a.ts', 0, 0), textTab('file:///b.ts', 0, 1), textTab('file:///c.ts', 0, 2)], savedTabKey);
+
+		assert.deepStrictEqual([...owners].map(([ownerPath, keys]) => [ownerPath, [...keys]]), [
+			[owner.fullPath, ['file:///a.ts']],
+			[shared.fullPath, ['file:///b.ts']]
+		]);
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { historyVersionFileName, mergedHistoryFileName, parseHistoryVersionFileName } from '../history';
+
+suite('Session history', () => {
+	test('reads back the timestamp and operation of a version file name', () => {
+		const file = historyVersionFileName('2026-10-19T08:15:30.250Z', 'edit');
+
+		assert.strictEqual(file, '2026-10-19T08-15-30-250Z.edit.json');
+		assert.deepStrictEqual(parseHistoryVersionFileName(file), { timestamp: '2026-10-19T08:15:30.250Z', operation: 'edit', copy: undefined });
+	});
+
+	test('ignores files that are not versions', () => {
+		for (const file of ['2026-10-19T08-15-30-250Z.edit.buffers', '2026-10-19T08-15-30-250Z.rename.json', 'notes.json']) {
+			assert.strictEqual(parseHistoryVersionFileName(file), undefined, file);
+		}
+	});
+
+	test('numbers merged versions whose name is taken', () => {
+		const file = historyVersionFileName('2026-10-19T08:15:30.250Z', 'delete');
+		const taken = new Set([file, historyVersionFileName('2026-10-19T08:15:30.250Z', 'delete', 2)]);
+
+		const merged = mergedHistoryFileName(file, taken);
+
+		assert.strictEqual(merged, '2026-10-19T08-15-30-250Z.delete.3.json');
+		assert.deepStrictEqual(parseHistoryVersionFileName(merged ?? ''), { timestamp: '2026-10-19T08:15:30.250Z', operation: 'delete', copy: 3 });
+		assert.strictEqual(mergedHistoryFileName(file, new Set()), file);
+	});
+});
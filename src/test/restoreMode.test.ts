@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { PENDING_WINDOW_RESTORE_TTL_MS, PendingWindowRestore, claimPendingWindowRestore, parseRestoreMode } from '../restoreMode';
+
+function pending(name: string, workspace: string | undefined, requestedAt: number): PendingWindowRestore {
+	return { entry: { name, fullPath: `/sessions/${name}.json` }, workspace, requestedAt };
+}
+
+suite('Restore modes', () => {
+	test('accepts only the known restore modes', () => {
+		assert.strictEqual(parseRestoreMode('new window'), 'new window');
+		assert.strictEqual(parseRestoreMode('Merge'), undefined);
+		assert.strictEqual(parseRestoreMode(undefined), undefined);
+	});
+
+	test('claims the oldest request made for this workspace', () => {
+		const now = 100_000;
+		const restores = {
+			newer: pending('newer', 'file:///app', now - 10),
+			older: pending('older', 'file:///app', now - 20),
+			other: pending('other', 'file:///docs', now - 30)
+		};
+
+		const { claimed, remaining } = claimPendingWindowRestore(restores, 'file:///app', now);
+
+		assert.strictEqual(claimed?.entry.name, 'older');
+		assert.deepStrictEqual(Object.keys(remaining).sort(), ['newer', 'other']);
+	});
+
+	test('keeps an empty window apart from windows with folders', () => {
+		const restores = { app: pending('app', 'file:///app', 0) };
+
+		const { claimed, remaining } = claimPendingWindowRestore(restores, undefined, 0);
+
+		assert.strictEqual(claimed, undefined);
+		assert.deepStrictEqual(remaining, restores);
+	});
+
+	test('drops requests that expired before a window claimed them', () => {
+		const now = 100_000;
+		const restores = {
+			stale: pending('stale', undefined, now - PENDING_WINDOW_RESTORE_TTL_MS - 1),
+			stranger: pending('stranger', 'file:///docs', now - PENDING_WINDOW_RESTORE_TTL_MS - 1)
+		};
+
+		const { claimed, remaining } = claimPendingWindowRestore(restores, undefined, now);
+
+		assert.strictEqual(claimed, undefined);
+		assert.deepStrictEqual(remaining, {});
+	});
+});
@@ -0,0 +1,220 @@
+import * as assert from 'assert';
+import {
+	SESSION_BUNDLE_FORMAT,
+	SESSION_FILE_VERSION,
+	SavedTabState,
+	detectFoldedRegions,
+	fromPortableTab,
+	migrateTabState,
+	parseSessionBundle,
+	rekeyStashedBuffers,
+	renameSavedUri,
+	renumberSessionTabs,
+	savedTabKey,
+	toPortableTab,
+	validatePathSegment
+} from '../sessionFormat';
+
+function textTab(uri: string, groupIndex: number, tabIndex: number): SavedTabState {
+	return { kind: 'text', uri, groupIndex, tabIndex, isGroupActive: false, isGlobalActive: false };
+}
+
+function range(startLine: number, endLine: number) {
+	return { start: { line: startLine, character: 0 }, end: { line: endLine, character: 0 } };
+}
+
+suite('Session format', () => {
+	test('migrates a version 2 cursor to a selection', () => {
+		const cursor = { line: 4, character: 2 };
+		const migrated = migrateTabState({ uri: 'file:///a.ts', groupIndex: 0, tabIndex: 0, isGroupActive: true, isGlobalActive: true, cursor }, 2);
+
+		assert.strictEqual(migrated.kind, 'text');
+		assert.deepStrictEqual(migrated.selections, [{ anchor: cursor, active: cursor }]);
+		assert.strictEqual('cursor' in migrated, false);
+	});
+
+	test('keeps the selections of a current tab', () => {
+		const selections = [{ anchor: { line: 1, character: 0 }, active: { line: 3, character: 5 } }];
+		const migrated = migrateTabState({ ...textTab('file:///a.ts', 0, 0), selections }, SESSION_FILE_VERSION);
+
+		assert.deepStrictEqual(migrated.selections, selections);
+	});
+
+	test('renumbers tabs per group in array order', () => {
+		const tabs = renumberSessionTabs([
+			textTab('file:///a.ts', 0, 4),
+			textTab('file:///b.ts', 1, 7),
+			textTab('file:///c.ts', 0, 9)
+		]);
+
+		assert.deepStrictEqual(tabs.map(tabState => [tabState.groupIndex, tabState.tabIndex]), [[0, 0], [1, 0], [0, 1]]);
+	});
+
+	test('detects folds between visible ranges', () => {
+		const regions = detectFoldedRegions([range(0, 10), range(20, 30), range(31, 40)], []);
+
+		assert.deepStrictEqual(regions, [{ startLine: 10, endLine: 19 }]);
+	});
+
+	test('keeps folds outside the viewport', () => {
+		const outside = { startLine: 100, endLine: 120 };
+		const hidden = { startLine: 12, endLine: 15 };
+		const regions = detectFoldedRegions([range(0, 20)], [outside, hidden]);
+
+		assert.deepStrictEqual(regions, [outside]);
+	});
+
+	test('parses a plain session file as a bundle of one', () => {
+		const parsed = parseSessionBundle({ version: 3, tabs: [textTab('file:///a.ts', 0, 0)] }, 'backend');
+
+		assert.strictEqual(parsed?.invalid, 0);
+		assert.deepStrictEqual(parsed?.sessions.map(entry => entry.name), ['backend']);
+	});
+
+	test('counts invalid bundle entries instead of importing them', () => {
+		const content = { version: 3, tabs: [] };
+		const parsed = parseSessionBundle({
+			format: SESSION_BUNDLE_FORMAT,
+			version: 1,
+			exportedAt: new Date(0).toISOString(),
+			sessions: [
+				{ name: 'api', folder: 'team/backend', content },
+				{ name: '../escape', content },
+				{ name: 'nested', folder: 'team/..', content },
+				{ name: 'broken', content: { version: 3 } }
+			]
+		}, 'unused');
+
+		assert.strictEqual(parsed?.invalid, 3);
+		assert.deepStrictEqual(parsed?.sessions.map(entry => [entry.folder, entry.name]), [['team/backend', 'api']]);
+	});
+
+	test('skips imported tabs that are malformed', () => {
+		const valid = textTab('file:///a.ts', 0, 0);
+		const portable = { kind: 'text', location: { folder: 'app', path: 'src/b.ts' }, groupIndex: 0, tabIndex: 1, isGroupActive: false, isGlobalActive: false };
+		const parsed = parseSessionBundle({
+			version: 3,
+			tabs: [
+				valid,
+				portable,
+				{ ...valid, kind: 'hologram' },
+				{ ...valid, uri: 42 },
+				{ ...valid, groupIndex: -1 },
+				{ ...valid, tabIndex: 1.5 },
+				{ kind: 'diff', uri: 'file:///c.ts', groupIndex: 1, tabIndex: 0 }
+			]
+		}, 'backend');
+
+		assert.strictEqual(parsed?.skippedTabs, 5);
+		assert.deepStrictEqual(parsed?.sessions[0].content.tabs, [valid, portable]);
+	});
+
+	test('drops the branch binding of an imported session file', () => {
+		const parsed = parseSessionBundle({
+			version: 3,
+			metadata: { description: 'API work', boundBranch: 'feature/api', boundRepository: 'file:///home/me/app' },
+			tabs: [textTab('file:///a.ts', 0, 0)]
+		}, 'backend');
+		const metadata = parsed?.sessions[0].content.metadata;
+
+		assert.strictEqual(metadata?.description, 'API work');
+		assert.strictEqual(metadata?.boundBranch, undefined);
+		assert.strictEqual(metadata?.boundRepository, undefined);
+	});
+
+	test('rejects files that are neither a session nor a bundle', () => {
+		assert.strictEqual(parseSessionBundle({ format: 'something-else', sessions: [] }, 'unused'), undefined);
+		assert.strictEqual(parseSessionBundle('not json', 'unused'), undefined);
+	});
+
+	test('re-keys stashed buffers around the ids already taken', () => {
+		const buffer = { languageId: 'plaintext', content: 'draft' };
+		const tabs = [
+			{ ...textTab('untitled:Untitled-1', 0, 0), bufferId: 'buffer-1' },
+			{ ...textTab('untitled:Untitled-1', 1, 0), bufferId: 'buffer-1' },
+			{ ...textTab('untitled:Untitled-2', 0, 1), bufferId: 'buffer-2' }
+		];
+
+		const rekeyed = rekeyStashedBuffers(tabs, { 'buffer-1': buffer }, ['buffer-1', 'buffer-3']);
+
+		assert.deepStrictEqual(rekeyed.tabs.map(tabState => tabState.bufferId), ['buffer-2', 'buffer-2', undefined]);
+		assert.deepStrictEqual(rekeyed.buffers, { 'buffer-2': buffer });
+	});
+
+	test('drops malformed buffers from an imported bundle', () => {
+		const parsed = parseSessionBundle({
+			format: SESSION_BUNDLE_FORMAT,
+			version: 1,
+			exportedAt: new Date(0).toISOString(),
+			sessions: [{
+				name: 'drafts',
+				content: { version: 3, tabs: [] },
+				buffers: { 'buffer-1': { languageId: 'sql', content: 'select 1' }, 'buffer-2': { content: 42 }, 'buffer-3': null }
+			}]
+		}, 'unused');
+
+		assert.deepStrictEqual(parsed?.sessions[0].buffers, { 'buffer-1': { languageId: 'sql', content: 'select 1' } });
+	});
+
+	test('exports tabs inside a workspace folder by location only', () => {
+		const located = { ...textTab('file:///home/me/app/src/a.ts', 0, 0), location: { folder: 'app', path: 'src/a.ts' } };
+		const outside = textTab('file:///tmp/notes.md', 0, 1);
+
+		const portable = [located, outside].map(toPortableTab);
+
+		assert.strictEqual('uri' in portable[0], false);
+		assert.strictEqual(JSON.stringify(portable).includes('/home/me'), false);
+		assert.deepStrictEqual(portable[1], outside);
+	});
+
+	test('maps the locations of an imported bundle onto this workspace', () => {
+		const diff: SavedTabState = {
+			kind: 'diff',
+			uri: 'file:///home/me/app/src/a.ts',
+			originalUri: 'file:///home/me/app/src/b.ts',
+			location: { folder: 'app', path: 'src/a.ts' },
+			originalLocation: { folder: 'app', path: 'src/b.ts' },
+			groupIndex: 0,
+			tabIndex: 0,
+			isGroupActive: true,
+			isGlobalActive: true
+		};
+		const bundle = JSON.parse(JSON.stringify({
+			format: SESSION_BUNDLE_FORMAT,
+			version: 1,
+			exportedAt: new Date(0).toISOString(),
+			sessions: [{ name: 'review', content: { version: SESSION_FILE_VERSION, tabs: [toPortableTab(diff)] } }]
+		}));
+
+		const parsed = parseSessionBundle(bundle, 'unused');
+		const imported = parsed?.sessions[0].content.tabs.map(tabState =>
+			fromPortableTab(tabState, location => `file:///work/${location.folder}/${location.path}`));
+
+		assert.deepStrictEqual(imported, [{ ...diff, uri: 'file:///work/app/src/a.ts', originalUri: 'file:///work/app/src/b.ts' }]);
+	});
+
+	test('rejects path segments Windows cannot store', () => {
+		for (const name of ['CON', 'nul', 'Com1', 'lpt9.backup', 'notes.', 'notes ']) {
+			assert.ok(validatePathSegment(name, 'Session name'), name);
+		}
+		for (const name of ['console', 'com10', 'lpt', 'my notes', 'v1.2']) {
+			assert.strictEqual(validatePathSegment(name, 'Session name'), undefined, name);
+		}
+	});
+
+	test('keeps a Markdown preview apart from its source file', () => {
+		const source = textTab('file:///docs/README.md', 0, 0);
+		const preview: SavedTabState = { kind: 'markdownPreview', uri: 'file:///docs/README.md', groupIndex: 1, tabIndex: 0, isGroupActive: true, isGlobalActive: false };
+
+		assert.notStrictEqual(savedTabKey(preview), savedTabKey(source));
+	});
+
+	test('follows renamed files and the contents of renamed folders', () => {
+		const renames = [{ from: 'file:///app/src/old.ts', to: 'file:///app/src/new.ts' }, { from: 'file:///app/lib', to: 'file:///app/vendor' }];
+
+		assert.strictEqual(renameSavedUri('file:///app/src/old.ts', renames), 'file:///app/src/new.ts');
+		assert.strictEqual(renameSavedUri('file:///app/lib/util/a.ts', renames), 'file:///app/vendor/util/a.ts');
+		assert.strictEqual(renameSavedUri('file:///app/library.ts', renames), undefined);
+		assert.strictEqual(renameSavedUri('file:///app/src/old.ts.map', renames), undefined);
+	});
+});
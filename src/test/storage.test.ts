@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { MementoStorageProvider, MementoStorageState, SessionStorage } from '../storage';
+
+class FakeMemento implements vscode.Memento {
+	private readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	// Like the real memento, the new value is visible at once while persisting it takes a moment.
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+		await new Promise(resolve => setImmediate(resolve));
+	}
+}
+
+suite('Session storage', () => {
+	let root: string;
+	let changes: number;
+	let storage: SessionStorage;
+
+	setup(async () => {
+		root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'session-saver-'));
+		changes = 0;
+		storage = new SessionStorage(() => changes++);
+		storage.mementoProviders = [new MementoStorageProvider('workspaceState', path.join(root, 'state'), new FakeMemento(), 'sessions')];
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(root, { recursive: true, force: true });
+	});
+
+	for (const backend of ['disk', 'state']) {
+		test(`renames and deletes a session (${backend})`, async () => {
+			const folder = path.join(root, backend, 'sessions');
+			const original = path.join(folder, 'backend.json');
+			const renamed = path.join(folder, 'api.json');
+			await storage.providerFor(folder).createDirectory(folder);
+			await storage.writeFile(original, '{"tabs":[]}');
+
+			await storage.rename(original, renamed);
+			assert.strictEqual(storage.exists(original), false);
+			assert.strictEqual(await storage.readFile(renamed), '{"tabs":[]}');
+
+			await storage.delete(renamed);
+			assert.strictEqual(storage.exists(renamed), false);
+			assert.strictEqual(changes, 3);
+		});
+	}
+
+	test('moves a folder with its sessions in memento storage', async () => {
+		const folder = path.join(root, 'state', 'clients');
+		await storage.writeFile(path.join(folder, 'acme.json'), 'a');
+		await storage.writeFile(path.join(folder, 'nested', 'beta.json'), 'b');
+
+		await storage.rename(folder, path.join(root, 'state', 'customers'));
+
+		const entries = await storage.providerFor(folder).readDirectory(path.join(root, 'state', 'customers'));
+		assert.deepStrictEqual(entries.map(entry => [entry.name, entry.isDirectory]).sort(), [['acme.json', false], ['nested', true]]);
+		assert.strictEqual(await storage.readFile(path.join(root, 'state', 'customers', 'nested', 'beta.json')), 'b');
+		assert.strictEqual(storage.exists(folder), false);
+	});
+
+	test('keeps local-only files out of the main memento key', async () => {
+		const memento = new FakeMemento();
+		const synced = new MementoStorageProvider('settingsSync', path.join(root, 'synced'), memento, 'synced', {
+			key: 'local',
+			includes: relativePath => relativePath.startsWith('.history/') || relativePath.endsWith('.buffers')
+		});
+		await synced.writeFile(path.join(root, 'synced', 'api.json'), 'session');
+		await synced.writeFile(path.join(root, 'synced', 'api.buffers'), 'draft');
+		await synced.writeFile(path.join(root, 'synced', '.history', 'api', '1.overwrite.json'), 'old');
+
+		assert.deepStrictEqual(Object.keys(memento.get<MementoStorageState>('synced')?.files ?? {}), ['api.json']);
+		assert.deepStrictEqual(Object.keys(memento.get<MementoStorageState>('local')?.files ?? {}).sort(), ['.history/api/1.overwrite.json', 'api.buffers']);
+		assert.strictEqual(await synced.readFile(path.join(root, 'synced', 'api.buffers')), 'draft');
+
+		await synced.rename(path.join(root, 'synced', 'api.buffers'), path.join(root, 'synced', 'web.buffers'));
+		assert.deepStrictEqual(Object.keys(memento.get<MementoStorageState>('local')?.files ?? {}).sort(), ['.history/api/1.overwrite.json', 'web.buffers']);
+	});
+
+	test('keeps every file of concurrent writes to split memento keys', async () => {
+		const memento = new FakeMemento();
+		const synced = new MementoStorageProvider('settingsSync', path.join(root, 'synced'), memento, 'synced', {
+			key: 'local',
+			includes: relativePath => relativePath.startsWith('.history/')
+		});
+		const names = ['a', 'b', 'c', 'd'];
+
+		await Promise.all(names.flatMap(name => [
+			synced.writeFile(path.join(root, 'synced', `${name}.json`), name),
+			synced.writeFile(path.join(root, 'synced', '.history', name, '1.delete.json'), name)
+		]));
+
+		assert.deepStrictEqual(Object.keys(memento.get<MementoStorageState>('synced')?.files ?? {}).sort(), names.map(name => `${name}.json`));
+		assert.deepStrictEqual(Object.keys(memento.get<MementoStorageState>('local')?.files ?? {}).sort(), names.map(name => `.history/${name}/1.delete.json`));
+	});
+
+	test('moves sessions between disk and memento storage', async () => {
+		const diskFolder = path.join(root, 'disk', 'sessions');
+		const stateFolder = path.join(root, 'state', 'sessions');
+		await storage.fileSystem.createDirectory(path.join(diskFolder, 'team'));
+		await storage.writeFile(path.join(diskFolder, 'team', 'api.json'), 'api');
+		await storage.writeFile(path.join(diskFolder, 'web.json'), 'web');
+
+		await storage.rename(diskFolder, stateFolder);
+		assert.strictEqual(fs.existsSync(diskFolder), false);
+		assert.strictEqual(fs.existsSync(stateFolder), false);
+		assert.strictEqual(await storage.readFile(path.join(stateFolder, 'team', 'api.json')), 'api');
+
+		await storage.fileSystem.createDirectory(diskFolder);
+		await storage.copyFile(path.join(stateFolder, 'web.json'), path.join(diskFolder, 'web.json'));
+		assert.strictEqual(await fs.promises.readFile(path.join(diskFolder, 'web.json'), 'utf8'), 'web');
+	});
+});